@@ -22,6 +22,7 @@ const config: ReturnType<typeof tseslint.config> = tseslint.config(
       'eslint.config.ts',
       'jest.config.js',
       'tsup.config.ts',
+      'vitest.config.ts',
     ],
   },
   {
@@ -18,4 +18,9 @@ export default {
     '<rootDir>/src/**/__tests__/**/*.[jt]s?(x)',
     '<rootDir>/src/**/?(*.)+(spec|test).[jt]s?(x)',
   ],
+  // The Vitest setup module is tested with Vitest, see vitest.config.ts
+  testPathIgnorePatterns: [
+    '/node_modules/',
+    '<rootDir>/src/__tests__/vitest.test.ts',
+  ],
 };
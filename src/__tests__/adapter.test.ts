@@ -0,0 +1,72 @@
+import { createMemoryAdapter, setDefaultAdapter } from '@/adapter';
+import { createFactory } from '@/factory';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+describe('createMemoryAdapter', () => {
+  it('stores saved records', async () => {
+    const adapter = createMemoryAdapter<User>();
+
+    const user = await adapter.save({ id: 1, name: 'Jane' });
+    const users = await adapter.saveMany?.([
+      { id: 2, name: 'John' },
+      { id: 3, name: 'Jack' },
+    ]);
+
+    expect(user).toEqual({ id: 1, name: 'Jane' });
+    expect(users).toHaveLength(2);
+    expect(adapter.records.map(({ id }) => id)).toEqual([1, 2, 3]);
+  });
+
+  it('removes destroyed records', async () => {
+    const adapter = createMemoryAdapter<User>();
+    const user = await adapter.save({ id: 1, name: 'Jane' });
+    await adapter.save({ id: 2, name: 'John' });
+
+    await adapter.destroy?.(user);
+
+    expect(adapter.records).toEqual([{ id: 2, name: 'John' }]);
+  });
+
+  it('clears every record', async () => {
+    const adapter = createMemoryAdapter<User>();
+    await adapter.save({ id: 1, name: 'Jane' });
+
+    adapter.clear();
+
+    expect(adapter.records).toEqual([]);
+  });
+});
+
+describe('setDefaultAdapter', () => {
+  afterEach(() => {
+    setDefaultAdapter(undefined);
+  });
+
+  it('is used by factories without their own adapter', async () => {
+    const adapter = createMemoryAdapter<User>();
+    setDefaultAdapter(adapter);
+
+    const userFactory = createFactory<User>().define({ id: 1, name: 'Jane' });
+    const user = await userFactory.create();
+
+    expect(adapter.records).toEqual([user]);
+  });
+
+  it('is ignored by factories with their own adapter', async () => {
+    const defaultAdapter = createMemoryAdapter<User>();
+    const factoryAdapter = createMemoryAdapter<User>();
+    setDefaultAdapter(defaultAdapter);
+
+    const userFactory = createFactory<User>()
+      .define({ id: 1, name: 'Jane' })
+      .adapter(factoryAdapter);
+    await userFactory.create();
+
+    expect(defaultAdapter.records).toEqual([]);
+    expect(factoryAdapter.records).toHaveLength(1);
+  });
+});
@@ -0,0 +1,184 @@
+import { association, list } from '@/association';
+import { createFactory } from '@/factory';
+
+interface Profile {
+  bio: string;
+  theme: string;
+  summary: string;
+}
+
+interface Comment {
+  body: string;
+  approved: boolean;
+  post?: Post;
+}
+
+interface Post {
+  title: string;
+  profile: Profile;
+  comments: Comment[];
+}
+
+const profileFactory = createFactory<Profile>()
+  .define({
+    bio: 'Hello',
+    theme: 'light',
+    summary: ({ bio, theme }) => `${bio} (${theme})`,
+  })
+  .trait('dark', { theme: 'dark' });
+
+const commentFactory = createFactory<Comment>()
+  .define({ body: 'Nice post', approved: false })
+  .trait('approved', { approved: true });
+
+describe('association', () => {
+  it('builds the associated object with its factory', () => {
+    const postFactory = createFactory<Pick<Post, 'title' | 'profile'>>().define(
+      { title: 'Post', profile: association(profileFactory) }
+    );
+
+    expect(postFactory.build().profile).toEqual({
+      bio: 'Hello',
+      theme: 'light',
+      summary: 'Hello (light)',
+    });
+  });
+
+  it('applies the traits and overrides of the association', () => {
+    const postFactory = createFactory<Pick<Post, 'title' | 'profile'>>().define(
+      {
+        title: 'Post',
+        profile: association(profileFactory, {
+          traits: ['dark'],
+          overrides: { bio: 'Hi' },
+        }),
+      }
+    );
+
+    expect(postFactory.build().profile.summary).toBe('Hi (dark)');
+  });
+
+  it('forwards nested overrides to the associated factory', () => {
+    const postFactory = createFactory<Pick<Post, 'title' | 'profile'>>().define(
+      { title: 'Post', profile: association(profileFactory) }
+    );
+
+    const post = postFactory.build({
+      overrides: {
+        profile__bio: 'Bonjour',
+        // Function overrides of associations receive the associated object
+        profile__theme: (profile) =>
+          (profile as Partial<Profile>).bio === 'Bonjour' ? 'french' : 'other',
+      },
+    });
+
+    // Dependent attributes of the associated object see the overrides
+    expect(post.profile).toEqual({
+      bio: 'Bonjour',
+      theme: 'french',
+      summary: 'Bonjour (french)',
+    });
+  });
+
+  it('merges deep partial overrides into the associated object', () => {
+    const postFactory = createFactory<Pick<Post, 'title' | 'profile'>>().define(
+      { title: 'Post', profile: association(profileFactory) }
+    );
+
+    const post = postFactory.build({ overrides: { profile: { bio: 'Hi' } } });
+
+    expect(post.profile).toEqual({
+      bio: 'Hi',
+      theme: 'light',
+      summary: 'Hi (light)',
+    });
+  });
+
+  it('is replaced by function overrides', () => {
+    const postFactory = createFactory<Pick<Post, 'title' | 'profile'>>().define(
+      { title: 'Post', profile: association(profileFactory) }
+    );
+    const profile = { bio: 'Custom', theme: 'none', summary: 'Custom' };
+
+    const post = postFactory.build({
+      overrides: { profile: () => profile, profile__bio: 'Patched' },
+    });
+
+    expect(post.profile).toBe(profile);
+    expect(profile.bio).toBe('Patched');
+  });
+
+  it('builds on its own outside of a factory', () => {
+    expect(association(profileFactory, { traits: ['dark'] })().theme).toBe(
+      'dark'
+    );
+  });
+});
+
+describe('list', () => {
+  const postFactory = () =>
+    createFactory<Pick<Post, 'title' | 'comments'>>().define({
+      title: 'Post',
+      comments: list(commentFactory, 3, { traits: ['approved'] }),
+    });
+
+  it('builds the given number of objects', () => {
+    const post = postFactory().build();
+
+    expect(post.comments).toHaveLength(3);
+    expect(post.comments.every(({ approved }) => approved)).toBe(true);
+  });
+
+  it('forwards indexed overrides to a single item and others to every item', () => {
+    const post = postFactory().build({
+      overrides: { comments__body: 'Shared', comments__1__body: 'Second' },
+    });
+
+    expect(post.comments.map(({ body }) => body)).toEqual([
+      'Shared',
+      'Second',
+      'Shared',
+    ]);
+  });
+
+  it('builds on its own outside of a factory', () => {
+    expect(list(commentFactory, 2)()).toHaveLength(2);
+  });
+});
+
+describe('inverse associations', () => {
+  it('points associated objects back at the built parent', () => {
+    const postFactory = createFactory<Pick<Post, 'title' | 'comments'>>()
+      .define({
+        title: 'Post',
+        comments: list(commentFactory, 2, { inverse: 'post' }),
+      })
+      .afterBuild((post) => ({ ...post, title: 'Final' }));
+
+    const post = postFactory.build();
+
+    expect(post.comments[0].post).toBe(post);
+    expect(post.comments[1].post).toBe(post);
+    expect(post.comments[0].post?.title).toBe('Final');
+  });
+
+  it('keeps the associated factory from building the inverse attribute', () => {
+    let builtPosts = 0;
+    const commentWithPostFactory = commentFactory.extend<Comment>().define({
+      post: () => {
+        builtPosts++;
+        return undefined;
+      },
+    });
+    const postFactory = createFactory<
+      Pick<Post, 'title' | 'comments'>
+    >().define({
+      title: 'Post',
+      comments: list(commentWithPostFactory, 2, { inverse: 'post' }),
+    });
+
+    postFactory.build();
+
+    expect(builtPosts).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { association } from '@/association';
+import { createFactory } from '@/factory';
+import { sequence } from '@/sequence';
+
+// Throughput guards: the floors are far below the usual throughput, so that
+// they only fail when builds become much slower, not on slow machines
+const BUILDS = 2_000;
+const MIN_BUILDS_PER_SECOND = 2_000;
+// Twice the time the warm-up and measured runs take at the floor, so that the test
+// fails on the floor rather than on a timeout
+const TIMEOUT = ((4 * BUILDS) / MIN_BUILDS_PER_SECOND) * 1000;
+
+interface Profile {
+  bio: string;
+  theme: string;
+}
+
+interface User {
+  id: number;
+  name: string;
+  role: string;
+  tags: string[];
+  settings: { locale: string; notifications: boolean };
+  profile: Profile;
+}
+
+const profileFactory = createFactory<Profile>().define({
+  bio: 'Hello',
+  theme: 'light',
+});
+
+const userFactory = createFactory<User>()
+  .define({
+    id: sequence((n) => n),
+    name: (_user, faker) => faker.name.firstName(),
+    role: 'member',
+    tags: [],
+    settings: { locale: 'en', notifications: true },
+    profile: association(profileFactory),
+  })
+  .trait('admin', { role: 'admin' })
+  .trait('french', { settings: { locale: 'fr', notifications: false } });
+
+// Returns the number of builds per second of the given run
+const measure = (run: () => void): number => {
+  // Warm up, so that the plans are compiled and the code optimized
+  run();
+
+  const start = performance.now();
+  run();
+  return (BUILDS / (performance.now() - start)) * 1000;
+};
+
+describe('build throughput', () => {
+  it(
+    'builds objects without options quickly',
+    () => {
+      expect(measure(() => userFactory.buildMany(BUILDS))).toBeGreaterThan(
+        MIN_BUILDS_PER_SECOND
+      );
+    },
+    TIMEOUT
+  );
+
+  it(
+    'builds objects with traits and overrides quickly',
+    () => {
+      const run = () =>
+        userFactory.buildMany(BUILDS, {
+          traits: ['admin', 'french'],
+          overrides: {
+            name: 'Alice',
+            settings__locale: 'de',
+            profile__bio: 'Hi',
+          },
+        });
+
+      expect(measure(run)).toBeGreaterThan(MIN_BUILDS_PER_SECOND);
+    },
+    TIMEOUT
+  );
+
+  it(
+    'iterates objects quickly',
+    () => {
+      const run = () => {
+        for (const user of userFactory.buildIterator(BUILDS)) user.id++;
+      };
+
+      expect(measure(run)).toBeGreaterThan(MIN_BUILDS_PER_SECOND);
+    },
+    TIMEOUT
+  );
+});
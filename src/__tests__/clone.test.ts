@@ -0,0 +1,107 @@
+import { cloneValue, copyShallow, shared } from '@/clone';
+
+class Point {
+  constructor(
+    public x: number,
+    public y: number
+  ) {}
+
+  get length(): number {
+    return Math.hypot(this.x, this.y);
+  }
+}
+
+describe('cloneValue', () => {
+  it('copies plain objects and arrays deeply', () => {
+    const value = { tags: ['a'], settings: { theme: 'light' } };
+    const copy = cloneValue(value);
+
+    copy.tags.push('b');
+    copy.settings.theme = 'dark';
+
+    expect(value).toEqual({ tags: ['a'], settings: { theme: 'light' } });
+  });
+
+  it('copies dates, regular expressions, maps, sets and typed arrays', () => {
+    const value = {
+      date: new Date('2024-01-01'),
+      pattern: /ab+/gi,
+      map: new Map([['key', { count: 1 }]]),
+      set: new Set([1, 2]),
+      bytes: new Uint8Array([1, 2]),
+    };
+    const copy = cloneValue(value);
+
+    expect(copy).toEqual(value);
+    expect(copy.date).not.toBe(value.date);
+    expect(copy.pattern).not.toBe(value.pattern);
+    expect(copy.map.get('key')).not.toBe(value.map.get('key'));
+    expect(copy.set).not.toBe(value.set);
+    expect(copy.bytes).not.toBe(value.bytes);
+  });
+
+  it('keeps class instances by reference', () => {
+    const point = new Point(3, 4);
+    const copy = cloneValue({ point });
+
+    expect(copy.point).toBe(point);
+    expect(copy.point.length).toBe(5);
+  });
+
+  it('keeps the private fields of class instances', () => {
+    class Money {
+      #cents: number;
+
+      constructor(cents: number) {
+        this.#cents = cents;
+      }
+
+      get cents(): number {
+        return this.#cents;
+      }
+    }
+
+    const copy = cloneValue({ price: new Money(100) });
+
+    expect(copy.price.cents).toBe(100);
+  });
+
+  it('handles circular references', () => {
+    const value: { self?: unknown } = {};
+    value.self = value;
+
+    const copy = cloneValue(value);
+
+    expect(copy.self).toBe(copy);
+    expect(copy).not.toBe(value);
+  });
+
+  it('keeps functions and shared values by reference', () => {
+    const callback = () => 1;
+    const settings = shared({ theme: 'light' });
+    const copy = cloneValue({ callback, settings });
+
+    expect(copy.callback).toBe(callback);
+    expect(copy.settings).toBe(settings);
+  });
+});
+
+describe('copyShallow', () => {
+  it('copies the outer level of objects, arrays and class instances', () => {
+    const settings = { theme: 'light', tags: ['a'] };
+    const point = new Point(3, 4);
+
+    expect(copyShallow(settings)).not.toBe(settings);
+    expect(copyShallow(settings).tags).toBe(settings.tags);
+    expect(copyShallow(['a'])).toEqual(['a']);
+    expect(copyShallow(point)).not.toBe(point);
+    expect(copyShallow(point)).toBeInstanceOf(Point);
+    expect(copyShallow(point).length).toBe(5);
+  });
+
+  it('keeps shared values by reference', () => {
+    const point = shared(new Point(3, 4));
+
+    expect(copyShallow(point)).toBe(point);
+  });
+});
@@ -1,5 +1,19 @@
+import { createMemoryAdapter } from '@/adapter';
+import { association } from '@/association';
+import { shared } from '@/clone';
 import { createFactory } from '@/factory';
-import { faker } from '@faker-js/faker';
+import { defineFactory, resetFactories } from '@/registry';
+import { resetSequence, sequence } from '@/sequence';
+import type {
+  BuildOptions,
+  FactoryConstructor,
+  FactoryOptions,
+  PersistenceAdapter,
+} from '@/types';
+import { clearAllUniqueStores, unique } from '@/unique';
+import { FactoryValidationError } from '@/validation';
+import { Faker, faker } from '@faker-js/faker';
+import { z } from 'zod';
 
 // Test interface
 interface User {
@@ -392,5 +406,1918 @@ describe('createFactory', () => {
       expect(customer.contact.address.street).toBe('123 Main St');
       expect(customer.contact.address.city).toBe('New York');
     });
+
+    describe('typed overrides', () => {
+      const userFactory = createFactory<CompleteUser>().define({
+        id: 1,
+        name: 'Jane Doe',
+        profile: () => ({
+          bio: 'Default bio',
+          avatar: 'default.jpg',
+          preferences: {
+            theme: 'light',
+            notifications: true,
+            darkMode: false,
+            color_scheme: 'blue',
+          },
+          lastUpdated: new Date('2023-01-01'),
+          social_links: { twitter: '@default', github: 'default' },
+        }),
+        metaData: () => ({ createdBy: 'system', tags: ['default', 'new'] }),
+        access_details: { role: 'user', permissions: ['read'] },
+      });
+
+      it('deep-merges partial objects into built attributes', () => {
+        const user = userFactory.build({
+          overrides: {
+            profile: { bio: 'Custom bio', preferences: { theme: 'dark' } },
+          },
+        });
+
+        expect(user.profile.bio).toBe('Custom bio');
+        expect(user.profile.avatar).toBe('default.jpg');
+        expect(user.profile.preferences).toEqual({
+          theme: 'dark',
+          notifications: true,
+          darkMode: false,
+          color_scheme: 'blue',
+        });
+      });
+
+      it('replaces arrays and dates instead of merging them', () => {
+        const lastUpdated = new Date('2024-01-01');
+        const user = userFactory.build({
+          overrides: {
+            profile: { lastUpdated },
+            metaData: { tags: ['custom'] },
+          },
+        });
+
+        expect(user.profile.lastUpdated).toEqual(lastUpdated);
+        expect(user.metaData.tags).toEqual(['custom']);
+      });
+
+      it('replaces objects with empty objects and function overrides', () => {
+        const user = userFactory.build({
+          overrides: {
+            profile: { social_links: {} },
+            access_details: () => ({ role: 'admin', permissions: [] }),
+          },
+        });
+
+        expect(user.profile.social_links).toEqual({});
+        expect(user.profile.bio).toBe('Default bio');
+        expect(user.access_details).toEqual({ role: 'admin', permissions: [] });
+      });
+
+      it('overrides array items by index', () => {
+        const user = userFactory.build({
+          overrides: { metaData__tags__1: 'featured' },
+        });
+
+        expect(user.metaData.tags).toEqual(['default', 'featured']);
+      });
+
+      it('checks nested paths and values against the built type', () => {
+        const build = () =>
+          userFactory.build({
+            overrides: {
+              // @ts-expect-error 'bioo' is not a property of the profile
+              profile__bioo: 'Typo',
+            },
+          });
+        const buildWithWrongType = () =>
+          userFactory.build({
+            overrides: {
+              // @ts-expect-error notifications is a boolean
+              profile__preferences__notifications: 'yes',
+            },
+          });
+
+        expect(build).not.toThrow();
+        expect(buildWithWrongType).not.toThrow();
+      });
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    const baseAttributes = {
+      id: () => faker.datatype.number(),
+      firstName: () => faker.name.firstName(),
+      lastName: () => faker.name.lastName(),
+      email: () => faker.internet.email(),
+      isAdmin: false,
+      createdAt: new Date('2023-01-01'),
+    };
+
+    it('runs beforeBuild hooks before overrides are applied', () => {
+      const userFactory = createFactory<User>()
+        .define(baseAttributes)
+        .beforeBuild((user) => {
+          user.firstName = 'Hooked';
+          user.lastName = 'Hooked';
+        });
+
+      const user = userFactory.build({ overrides: { lastName: 'Override' } });
+
+      expect(user.firstName).toBe('Hooked');
+      expect(user.lastName).toBe('Override');
+    });
+
+    it('runs afterBuild hooks once overrides are applied', () => {
+      const seen: string[] = [];
+      const userFactory = createFactory<User>()
+        .define(baseAttributes)
+        .afterBuild((user) => {
+          seen.push(user.firstName);
+        });
+
+      userFactory.build({ overrides: { firstName: 'Override' } });
+
+      expect(seen).toEqual(['Override']);
+    });
+
+    it('lets hooks replace the instance', () => {
+      const userFactory = createFactory<User>()
+        .define(baseAttributes)
+        .afterBuild((user) => ({ ...user, email: 'replaced@example.com' }))
+        .afterBuild((user) => ({ ...user, isAdmin: user.email.length > 0 }));
+
+      const user = userFactory.build();
+
+      expect(user.email).toBe('replaced@example.com');
+      expect(user.isAdmin).toBe(true);
+    });
+
+    it('passes the build options to hooks', () => {
+      const seenOptions: unknown[] = [];
+      const userFactory = createFactory<User>()
+        .define(baseAttributes)
+        .trait('admin', { isAdmin: true })
+        .afterBuild((_user, options) => {
+          seenOptions.push(options);
+        });
+
+      const options: BuildOptions<User, 'admin'> = {
+        traits: ['admin'],
+        overrides: { firstName: 'John' },
+      };
+      userFactory.build(options);
+
+      expect(seenOptions).toEqual([options]);
+    });
+
+    it('runs factory hooks before the hooks of applied traits', () => {
+      const calls: string[] = [];
+      const userFactory = createFactory<User>()
+        .define(baseAttributes)
+        .trait(
+          'admin',
+          { isAdmin: true },
+          {
+            beforeBuild: () => {
+              calls.push('trait:beforeBuild');
+            },
+            afterBuild: (user) => {
+              calls.push(`trait:afterBuild:${String(user.isAdmin)}`);
+            },
+          }
+        )
+        .beforeBuild(() => {
+          calls.push('factory:beforeBuild');
+        })
+        .afterBuild(() => {
+          calls.push('factory:afterBuild');
+        });
+
+      userFactory.build();
+      expect(calls).toEqual(['factory:beforeBuild', 'factory:afterBuild']);
+
+      calls.length = 0;
+      userFactory.build({ traits: ['admin'] });
+      expect(calls).toEqual([
+        'factory:beforeBuild',
+        'trait:beforeBuild',
+        'factory:afterBuild',
+        'trait:afterBuild:true',
+      ]);
+    });
+
+    it('runs hooks for every instance built by buildMany', () => {
+      let calls = 0;
+      const userFactory = createFactory<User>()
+        .define(baseAttributes)
+        .afterBuild(() => {
+          calls++;
+        });
+
+      userFactory.buildMany(3);
+
+      expect(calls).toBe(3);
+    });
+  });
+
+  describe('inheritance', () => {
+    interface Person {
+      name: string;
+      email: string;
+      age: number;
+    }
+
+    interface Employee extends Person {
+      employeeId: number;
+      department: string;
+    }
+
+    interface Manager extends Employee {
+      level: string;
+    }
+
+    const personFactory = () =>
+      createFactory<Person>().define({
+        name: () => faker.name.fullName(),
+        email: ({ name }) => `${name}@example.com`,
+        age: 30,
+      });
+
+    it('builds objects with attributes from the whole chain', () => {
+      const employeeFactory = personFactory()
+        .extend<Employee>()
+        .define({
+          employeeId: () => faker.datatype.number(),
+          department: 'Engineering',
+        });
+      const managerFactory = employeeFactory.extend<Manager>().define({
+        level: 'middle',
+      });
+
+      const manager = managerFactory.build();
+
+      expect(manager.name).toEqual(expect.any(String));
+      expect(manager.email).toBe(`${manager.name}@example.com`);
+      expect(manager.age).toBe(30);
+      expect(manager.employeeId).toEqual(expect.any(Number));
+      expect(manager.department).toBe('Engineering');
+      expect(manager.level).toBe('middle');
+    });
+
+    it('overrides attributes without mutating the parent', () => {
+      const parentFactory = personFactory();
+      const childFactory = parentFactory
+        .extend<Employee>()
+        .define({ age: 50, employeeId: 1, department: 'Sales' })
+        .trait('senior', { age: 60 });
+
+      expect(childFactory.build().age).toBe(50);
+      expect(childFactory.build({ traits: ['senior'] }).age).toBe(60);
+
+      const person = parentFactory.build();
+      expect(person.age).toBe(30);
+      expect(person).not.toHaveProperty('employeeId');
+      // @ts-expect-error the parent factory has no 'senior' trait
+      expect(() => parentFactory.build({ traits: ['senior'] })).toThrow(
+        "Unknown trait 'senior'"
+      );
+    });
+
+    it('inherits traits and hooks from the parent', () => {
+      const parentFactory = personFactory()
+        .trait('retired', { age: 70 })
+        .afterBuild((person) => ({
+          ...person,
+          name: person.name.toUpperCase(),
+        }));
+      const childFactory = parentFactory.extend<Employee>().define({
+        employeeId: 1,
+        department: 'Sales',
+      });
+
+      const employee = childFactory.build({ traits: ['retired'] });
+
+      expect(employee.age).toBe(70);
+      expect(employee.name).toBe(employee.name.toUpperCase());
+    });
+
+    it('keeps hooks registered on the child out of the parent', () => {
+      const parentFactory = personFactory();
+      parentFactory.extend<Employee>().afterBuild((employee) => {
+        employee.age = 99;
+      });
+
+      expect(parentFactory.build().age).toBe(30);
+    });
+  });
+
+  describe('transient attributes', () => {
+    interface UserOutput {
+      id: number;
+      fullName: string;
+      email: string;
+    }
+
+    const userFactory = () =>
+      createFactory<UserOutput>()
+        .transient<{ firstName: string; lastName: string }>({
+          firstName: () => faker.name.firstName(),
+          lastName: () => faker.name.lastName(),
+        })
+        .define({
+          id: () => faker.datatype.number(),
+          fullName: ({ firstName, lastName }) => `${firstName} ${lastName}`,
+          email: ({ firstName, lastName }) =>
+            `${firstName}.${lastName}@example.com`.toLowerCase(),
+        });
+
+    it('makes transient values available to attribute functions', () => {
+      const user = userFactory().build();
+      const [firstName, lastName] = user.fullName.split(' ');
+
+      expect(user.email).toBe(
+        `${firstName}.${lastName}@example.com`.toLowerCase()
+      );
+    });
+
+    it('strips transient values from the built object', () => {
+      const user = userFactory().build();
+
+      expect(Object.keys(user).sort()).toEqual(['email', 'fullName', 'id']);
+    });
+
+    it('accepts transient values when building', () => {
+      const user = userFactory().build({
+        transient: { firstName: 'Jane', lastName: 'Doe' },
+      });
+
+      expect(user.fullName).toBe('Jane Doe');
+      expect(user.email).toBe('jane.doe@example.com');
+    });
+
+    it('accepts transient values through overrides', () => {
+      const user = userFactory().build({
+        overrides: { firstName: 'John', id: 1 },
+      });
+
+      expect(user).toEqual({
+        id: 1,
+        fullName: expect.stringMatching(/^John /),
+        email: expect.stringMatching(/^john\./),
+      });
+    });
+
+    it('passes transient values to hooks', () => {
+      interface Author {
+        name: string;
+        posts: string[];
+      }
+
+      const authorFactory = createFactory<Author>()
+        .transient<{ postCount: number }>({ postCount: 0 })
+        .define({ name: 'Jane', posts: () => [] })
+        .afterBuild((author, _options, { postCount }) => {
+          for (let i = 0; i < postCount; i++) {
+            author.posts.push(`Post ${i + 1}`);
+          }
+        });
+
+      expect(authorFactory.build().posts).toEqual([]);
+      expect(authorFactory.build({ transient: { postCount: 2 } })).toEqual({
+        name: 'Jane',
+        posts: ['Post 1', 'Post 2'],
+      });
+    });
+  });
+
+  describe('persistence', () => {
+    const userFactory = () =>
+      createFactory<User>().define({
+        id: () => faker.datatype.number(),
+        firstName: () => faker.name.firstName(),
+        lastName: () => faker.name.lastName(),
+        email: () => faker.internet.email(),
+        isAdmin: false,
+        createdAt: new Date('2023-01-01'),
+      });
+
+    it('creates objects through the adapter', async () => {
+      const adapter = createMemoryAdapter<User>();
+      const factory = userFactory().adapter(adapter);
+
+      const user = await factory.create({ overrides: { firstName: 'Jane' } });
+      const users = await factory.createMany(2, { traits: [] });
+
+      expect(user.firstName).toBe('Jane');
+      expect(users).toHaveLength(2);
+      expect(adapter.records).toEqual([user, ...users]);
+    });
+
+    it('resolves whatever the adapter resolves to', async () => {
+      const adapter: PersistenceAdapter<User, { savedId: number }> = {
+        save: (user) => Promise.resolve({ savedId: user.id }),
+      };
+
+      const record = await userFactory()
+        .adapter(adapter)
+        .create({ overrides: { id: 42 } });
+
+      expect(record).toEqual({ savedId: 42 });
+    });
+
+    it('saves one object at a time when the adapter has no saveMany', async () => {
+      const saved: number[] = [];
+      const adapter: PersistenceAdapter<User> = {
+        save: (user) => {
+          saved.push(user.id);
+          return Promise.resolve(user);
+        },
+      };
+
+      const users = await userFactory().adapter(adapter).createMany(3);
+
+      expect(saved).toEqual(users.map(({ id }) => id));
+    });
+
+    it('runs afterCreate hooks on the persisted records', async () => {
+      const calls: string[] = [];
+      const factory = userFactory()
+        .trait(
+          'admin',
+          { isAdmin: true },
+          {
+            afterCreate: async (user) => {
+              await Promise.resolve();
+              calls.push(`trait:${user.firstName}`);
+            },
+          }
+        )
+        .adapter(createMemoryAdapter<User>())
+        .afterCreate((user) => ({ ...user, firstName: 'Created' }));
+
+      const user = await factory.create({ traits: ['admin'] });
+
+      expect(user.firstName).toBe('Created');
+      expect(calls).toEqual(['trait:Created']);
+    });
+
+    it('does not run afterCreate hooks when building', () => {
+      let calls = 0;
+      const factory = userFactory().afterCreate(() => {
+        calls++;
+      });
+
+      factory.build();
+
+      expect(calls).toBe(0);
+    });
+
+    it('destroys records through the adapter', async () => {
+      const adapter = createMemoryAdapter<User>();
+      const factory = userFactory().adapter(adapter);
+      const user = await factory.create();
+
+      await factory.destroy(user);
+
+      expect(adapter.records).toEqual([]);
+    });
+
+    it('fails to create objects without an adapter', async () => {
+      await expect(userFactory().create()).rejects.toThrow(
+        'No persistence adapter available'
+      );
+    });
+
+    it('inherits the adapter and afterCreate hooks when extending', async () => {
+      const adapter = createMemoryAdapter<User>();
+      const calls: string[] = [];
+      const factory = userFactory()
+        .trait(
+          'admin',
+          { isAdmin: true },
+          {
+            afterCreate: () => {
+              calls.push('trait');
+            },
+          }
+        )
+        .adapter(adapter)
+        .afterCreate(() => {
+          calls.push('factory');
+        });
+
+      const user = await factory.extend<User>().create({ traits: ['admin'] });
+
+      expect(adapter.records).toEqual([user]);
+      expect(calls).toEqual(['factory', 'trait']);
+    });
+  });
+
+  describe('seeding', () => {
+    const userFactory = () =>
+      createFactory<User>().define({
+        id: 1,
+        firstName: (_user, faker) => faker.name.firstName(),
+        lastName: (_user, faker) => faker.name.lastName(),
+        email: (_user, faker) => faker.internet.email(),
+        isAdmin: false,
+        createdAt: new Date('2023-01-01'),
+      });
+
+    it('produces the same objects for factories with the same seed', () => {
+      const first = userFactory().seed('users').buildMany(3);
+      const second = userFactory().seed('users').buildMany(3);
+
+      expect(second).toEqual(first);
+    });
+
+    it('restarts the stream when seeding again', () => {
+      const factory = userFactory().seed(1);
+      const first = factory.build();
+
+      expect(factory.seed(1).build()).toEqual(first);
+    });
+
+    it('is not affected by the global faker stream', () => {
+      const first = userFactory().seed(7).build();
+
+      const factory = userFactory().seed(7);
+      faker.datatype.number();
+
+      expect(factory.build()).toEqual(first);
+    });
+
+    it('gives derived factories their own stream with the same seed', () => {
+      const factory = userFactory().seed(5);
+      const first = factory.build();
+      factory.reset();
+
+      const derived = factory.with({ overrides: { isAdmin: true } });
+      expect(derived.build()).toEqual({ ...first, isAdmin: true });
+      factory.define({ id: 2 }).build();
+
+      expect(factory.build()).toEqual(first);
+    });
+
+    it('gives extending factories a stream with the same seed', () => {
+      const parentFactory = userFactory().seed(3);
+      const childFactory = parentFactory.extend<User>();
+
+      expect(childFactory.build()).toEqual(parentFactory.build());
+    });
+  });
+
+  describe('faker instances', () => {
+    interface Place {
+      locale: string;
+      country: string;
+    }
+
+    const placeFactory = (options: FactoryOptions = {}) =>
+      createFactory<Place>(options).define({
+        locale: (_place, faker) => faker.locale,
+        country: (_place, faker) => faker.address.country(),
+      });
+
+    it('hands the provided faker instance to attribute functions', () => {
+      const customFaker = new Faker({ locales: faker.locales, locale: 'fr' });
+      const seen: unknown[] = [];
+      const factory = createFactory<{ name: string }>({
+        faker: customFaker,
+      }).define({
+        name: (_instance, faker) => {
+          seen.push(faker);
+          return 'name';
+        },
+      });
+
+      factory.build();
+
+      expect(seen).toEqual([customFaker]);
+    });
+
+    it('generates data in the locale of each factory side by side', () => {
+      const german = placeFactory().locale('de').build();
+      const french = placeFactory().locale('fr').build();
+
+      expect(german.locale).toBe('de');
+      expect(faker.locales.de?.address?.country).toContain(german.country);
+      expect(french.locale).toBe('fr');
+      expect(faker.locales.fr?.address?.country).toContain(french.country);
+      expect(faker.locale).toBe('en');
+    });
+
+    it('keeps the seed of seeded factories when changing locale', () => {
+      const first = placeFactory().seed(5).locale('de').build();
+      const second = placeFactory().locale('de').seed(5).build();
+
+      expect(second).toEqual(first);
+      expect(first.locale).toBe('de');
+    });
+
+    it('bases locale instances on the provided faker instance', () => {
+      const customFaker = new Faker({
+        locales: { en: faker.locales.en, xx: { title: 'Custom' } },
+        locale: 'en',
+      });
+
+      expect(placeFactory({ faker: customFaker }).locale('xx').build()).toEqual(
+        { locale: 'xx', country: expect.any(String) as unknown }
+      );
+      expect(() => placeFactory().locale('xx')).toThrow(
+        "Unknown faker locale 'xx'"
+      );
+    });
+
+    it('seeds instances of the class of the provided faker instance', () => {
+      class CustomFaker extends Faker {}
+      const customFaker = new CustomFaker({ locales: faker.locales });
+      const seen: unknown[] = [];
+      const factory = createFactory<{ name: string }>({ faker: customFaker })
+        .define({
+          name: (_instance, faker) => {
+            seen.push(faker);
+            return faker.name.firstName();
+          },
+        })
+        .seed(3);
+
+      expect(factory.build()).toEqual(factory.reset().build());
+      expect(seen[0]).toBeInstanceOf(CustomFaker);
+      expect(seen[0]).not.toBe(customFaker);
+    });
+
+    it('seeds faker instances of newer majors', () => {
+      // Shaped like faker 8 and later, which keep the definitions of their locale
+      class NextFaker {
+        readonly rawDefinitions: object;
+        readonly seeds: number[] = [];
+
+        constructor({ locale }: { locale: object }) {
+          this.rawDefinitions = locale;
+        }
+
+        seed(seed: number): number {
+          this.seeds.push(seed);
+          return seed;
+        }
+      }
+
+      const nextFaker = new NextFaker({ locale: { metadata: { code: 'de' } } });
+      const seen: unknown[] = [];
+      const factory = createFactory<{ name: string }>({ faker: nextFaker })
+        .define({
+          name: (_instance, faker) => {
+            seen.push(faker);
+            return 'name';
+          },
+        })
+        .seed(7);
+
+      factory.build();
+
+      expect(seen[0]).toBeInstanceOf(NextFaker);
+      expect(seen[0]).toMatchObject({
+        rawDefinitions: nextFaker.rawDefinitions,
+        seeds: [7],
+      });
+      expect(() => factory.locale('fr')).toThrow(
+        "pass an instance for 'fr' with the faker option instead"
+      );
+    });
+
+    it('gives extending factories the same locale', () => {
+      const parentFactory = placeFactory().locale('de');
+
+      expect(parentFactory.extend<Place>().build().locale).toBe('de');
+    });
+  });
+
+  describe('batch customization', () => {
+    interface Member {
+      id: number;
+      name: string;
+      role: string;
+      verified: boolean;
+    }
+
+    let nextId = 1;
+    const memberFactory = createFactory<Member>()
+      .define({
+        id: () => nextId++,
+        name: () => faker.name.fullName(),
+        role: 'user',
+        verified: false,
+      })
+      .trait('verified', { verified: true });
+
+    it('applies per-item options from an array', () => {
+      const members = memberFactory.buildMany(3, {
+        customize: [
+          { overrides: { name: 'Admin User', role: 'admin' } },
+          { overrides: { role: 'moderator' }, traits: ['verified'] },
+        ],
+      });
+
+      expect(members[0]).toMatchObject({ name: 'Admin User', role: 'admin' });
+      expect(members[1]).toMatchObject({ role: 'moderator', verified: true });
+      expect(members[2]).toMatchObject({ role: 'user', verified: false });
+    });
+
+    it('applies per-item options from a callback', () => {
+      const members = memberFactory.buildMany(3, {
+        customize: (index) => ({ overrides: { name: `Member ${index}` } }),
+      });
+
+      expect(members.map(({ name }) => name)).toEqual([
+        'Member 0',
+        'Member 1',
+        'Member 2',
+      ]);
+    });
+
+    it('merges per-item options on top of the shared options', () => {
+      const members = memberFactory.buildMany(2, {
+        traits: ['verified'],
+        overrides: { role: 'editor', name: 'Shared' },
+        customize: [{ overrides: { name: 'First' } }],
+      });
+
+      expect(members[0]).toMatchObject({
+        name: 'First',
+        role: 'editor',
+        verified: true,
+      });
+      expect(members[1]).toMatchObject({
+        name: 'Shared',
+        role: 'editor',
+        verified: true,
+      });
+    });
+
+    it('merges nested overrides given as objects or as nested keys', () => {
+      const factory = createFactory<{
+        settings: { locale: string; theme: string };
+      }>().define({ settings: { locale: 'en', theme: 'light' } });
+      const french = factory.with({
+        overrides: { settings: { locale: 'fr' } },
+      });
+
+      expect(
+        french.build({ overrides: { settings: { theme: 'dark' } } })
+      ).toEqual({ settings: { locale: 'fr', theme: 'dark' } });
+      expect(french.build({ overrides: { settings__theme: 'dark' } })).toEqual({
+        settings: { locale: 'fr', theme: 'dark' },
+      });
+      expect(
+        factory
+          .buildMany(2, {
+            overrides: { settings: { locale: 'fr' } },
+            customize: [{ overrides: { settings: { theme: 'dark' } } }],
+          })
+          .map(({ settings }) => settings)
+      ).toEqual([
+        { locale: 'fr', theme: 'dark' },
+        { locale: 'fr', theme: 'light' },
+      ]);
+      expect(french.build({ overrides: { settings: {} } }).settings).toEqual(
+        {}
+      );
+    });
+
+    it('passes the merged options to hooks', () => {
+      const roles: unknown[] = [];
+      const factory = memberFactory
+        .extend<Member>()
+        .afterBuild((_member, options) => {
+          roles.push(options.overrides?.role);
+        });
+
+      factory.buildMany(2, {
+        overrides: { role: 'editor' },
+        customize: [{ overrides: { role: 'admin' } }],
+      });
+
+      expect(roles).toEqual(['admin', 'editor']);
+    });
+
+    it('applies per-item options when creating', async () => {
+      const members = await memberFactory
+        .extend<Member>()
+        .adapter(createMemoryAdapter<Member>())
+        .createMany(2, { customize: [{ traits: ['verified'] }] });
+
+      expect(members.map(({ verified }) => verified)).toEqual([true, false]);
+    });
+  });
+
+  describe('attribute resolution', () => {
+    interface Account {
+      username: string;
+      email: string;
+      displayName: string;
+    }
+
+    it('resolves dependencies whatever the declaration order', () => {
+      const accountFactory = createFactory<Account>().define({
+        displayName: ({ email }) => `<${email}>`,
+        email: ({ username }) => `${username}@example.com`,
+        username: () => 'jdoe',
+      });
+
+      expect(accountFactory.build()).toEqual({
+        displayName: '<jdoe@example.com>',
+        email: 'jdoe@example.com',
+        username: 'jdoe',
+      });
+    });
+
+    it('calls functions with default parameters as attribute functions', () => {
+      const accountFactory = createFactory<Account>().define({
+        username: 'jdoe',
+        email: (account = {}) => `${account.username}@example.com`,
+        displayName: 'John',
+      });
+
+      expect(accountFactory.build().email).toBe('jdoe@example.com');
+    });
+
+    it('resolves each attribute only once', () => {
+      let calls = 0;
+      const accountFactory = createFactory<Account>().define({
+        username: () => {
+          calls++;
+          return 'jdoe';
+        },
+        email: ({ username }) => `${username}@example.com`,
+        displayName: ({ username }) => `${username}`,
+      });
+
+      accountFactory.build();
+
+      expect(calls).toBe(1);
+    });
+
+    it('lets trait attributes depend on base attributes', () => {
+      const accountFactory = createFactory<Account>()
+        .define({
+          username: 'jdoe',
+          email: ({ username }) => `${username}@example.com`,
+          displayName: 'John',
+        })
+        .trait('shouting', {
+          displayName: ({ email }) => `${email}`.toUpperCase(),
+          username: 'JDOE',
+        });
+
+      expect(accountFactory.build({ traits: ['shouting'] })).toEqual({
+        username: 'JDOE',
+        email: 'JDOE@example.com',
+        displayName: 'JDOE@EXAMPLE.COM',
+      });
+    });
+
+    it('reports the path of circular dependencies', () => {
+      const accountFactory = createFactory<Account>().define({
+        username: ({ displayName }) => `${displayName}`,
+        email: ({ username }) => `${username}`,
+        displayName: ({ email }) => `${email}`,
+      });
+
+      expect(() => accountFactory.build()).toThrow(
+        'Circular dependency between attributes: username -> displayName -> email -> username'
+      );
+    });
+
+    it('does not resolve inherited object properties', () => {
+      const accountFactory = createFactory<Account>().define({
+        username: (account) => String('toString' in account),
+        email: 'jdoe@example.com',
+        displayName: 'John',
+      });
+
+      expect(accountFactory.build().username).toBe('true');
+    });
+  });
+
+  describe('overrides of dependent attributes', () => {
+    interface Contact {
+      firstName: string;
+      lastName: string;
+      email: string;
+      address: { city: string; country: string };
+      label: string;
+    }
+
+    const contactFactory = createFactory<Contact>().define({
+      firstName: () => faker.name.firstName(),
+      lastName: () => faker.name.lastName(),
+      email: ({ firstName, lastName }) =>
+        `${firstName}.${lastName}@example.com`.toLowerCase(),
+      address: () => ({ city: 'Paris', country: 'France' }),
+      label: ({ address }) => `${address?.city}, ${address?.country}`,
+    });
+
+    it('recomputes dependent attributes from overridden inputs', () => {
+      const contact = contactFactory.build({
+        overrides: { firstName: 'John', lastName: 'Doe' },
+      });
+
+      expect(contact.email).toBe('john.doe@example.com');
+    });
+
+    it('keeps explicitly overridden attributes over their definitions', () => {
+      const contact = contactFactory.build({
+        overrides: { firstName: 'John', email: 'custom@example.com' },
+      });
+
+      expect(contact.email).toBe('custom@example.com');
+    });
+
+    it('recomputes dependent attributes from nested overrides', () => {
+      const contact = contactFactory.build({
+        overrides: { address__city: 'Lyon' },
+      });
+
+      expect(contact.address).toEqual({ city: 'Lyon', country: 'France' });
+      expect(contact.label).toBe('Lyon, France');
+    });
+
+    it('resolves function overrides as attribute functions', () => {
+      const contact = contactFactory.build({
+        overrides: {
+          lastName: 'Doe',
+          firstName: ({ lastName }) => `Not${lastName}`,
+        },
+      });
+
+      expect(contact.firstName).toBe('NotDoe');
+      expect(contact.email).toBe('notdoe.doe@example.com');
+    });
+
+    it('keeps overrides over changes made by beforeBuild hooks', () => {
+      const contact = contactFactory
+        .extend<Contact>()
+        .beforeBuild((built) => {
+          built.address.city = 'Berlin';
+          built.firstName = 'Hooked';
+        })
+        .build({ overrides: { address__city: 'Lyon' } });
+
+      expect(contact.address.city).toBe('Lyon');
+      expect(contact.firstName).toBe('Hooked');
+    });
+  });
+
+  describe('trait names', () => {
+    const userFactory = createFactory<User>()
+      .define({
+        id: 1,
+        firstName: 'Jane',
+        lastName: 'Doe',
+        email: 'jane.doe@example.com',
+        isAdmin: false,
+        createdAt: new Date('2023-01-01'),
+      })
+      .trait('admin', { isAdmin: true })
+      .trait('renamed', { firstName: 'Joan' });
+
+    it('accepts the names of defined traits', () => {
+      const user = userFactory.build({ traits: ['admin', 'renamed'] });
+
+      expect(user.isAdmin).toBe(true);
+      expect(user.firstName).toBe('Joan');
+    });
+
+    it('rejects unknown trait names at compile time', () => {
+      expect(() =>
+        // @ts-expect-error 'admn' is not a trait of this factory
+        userFactory.build({ traits: ['admn'] })
+      ).toThrow();
+    });
+
+    it('throws on unknown trait names, listing the available traits', () => {
+      const traits = ['admn'] as unknown as Array<'admin'>;
+
+      expect(() => userFactory.build({ traits })).toThrow(
+        "Unknown trait 'admn'. Available traits: admin, renamed"
+      );
+    });
+
+    it('reports when the factory has no traits', () => {
+      const plainFactory = createFactory<{ name: string }>().define({
+        name: 'plain',
+      });
+
+      expect(() =>
+        // @ts-expect-error the factory has no traits
+        plainFactory.build({ traits: ['admin'] })
+      ).toThrow("Unknown trait 'admin'. Available traits: none");
+    });
+  });
+
+  describe('composite and parameterized traits', () => {
+    interface Member {
+      name: string;
+      role: string;
+      verified: boolean;
+      label: string;
+    }
+
+    const memberFactory = () =>
+      createFactory<Member>().define({
+        name: 'Jane',
+        role: 'member',
+        verified: false,
+        label: ({ name, role }) => `${name} (${role})`,
+      });
+
+    it('applies included traits before the trait itself', () => {
+      const factory = memberFactory()
+        .trait('admin', { role: 'admin', name: 'Admin' })
+        .trait('verified', { verified: true })
+        .trait(
+          'superAdmin',
+          { role: 'superadmin' },
+          {
+            include: ['admin', 'verified'],
+          }
+        );
+
+      expect(factory.build({ traits: ['superAdmin'] })).toEqual({
+        name: 'Admin',
+        role: 'superadmin',
+        verified: true,
+        label: 'Admin (superadmin)',
+      });
+    });
+
+    it('resolves nested inclusions depth-first and applies each trait once', () => {
+      const applied: string[] = [];
+      const track = (name: string) => ({
+        afterBuild: () => {
+          applied.push(name);
+        },
+      });
+      const factory = memberFactory()
+        .trait('verified', { verified: true }, track('verified'))
+        .trait(
+          'admin',
+          { role: 'admin' },
+          {
+            ...track('admin'),
+            include: ['verified'],
+          }
+        )
+        .trait(
+          'staff',
+          { name: 'Staff' },
+          {
+            ...track('staff'),
+            include: ['admin', 'verified'],
+          }
+        );
+
+      factory.build({ traits: ['staff'] });
+
+      expect(applied).toEqual(['verified', 'admin', 'staff']);
+    });
+
+    it('passes arguments to parameterized traits', () => {
+      const factory = memberFactory().trait(
+        'withRole',
+        (role: string, name: string) => ({ role, name })
+      );
+
+      const member = factory.build({ traits: [['withRole', 'editor', 'Joe']] });
+
+      expect(member.role).toBe('editor');
+      expect(member.label).toBe('Joe (editor)');
+    });
+
+    it('checks the arguments of parameterized traits', () => {
+      const factory = memberFactory()
+        .trait('withRole', (role: string) => ({ role }))
+        .trait('withName', (name?: string) => ({ name: name ?? 'Joe' }));
+
+      expect(() =>
+        factory.build({
+          traits: [
+            // @ts-expect-error the role must be a string
+            ['withRole', 42],
+          ],
+        })
+      ).not.toThrow();
+      // @ts-expect-error the role is required
+      expect(factory.build({ traits: ['withRole'] }).role).toBeUndefined();
+      expect(factory.build({ traits: ['withName'] }).name).toBe('Joe');
+    });
+
+    it('includes parameterized traits with arguments', () => {
+      const factory = memberFactory()
+        .trait('withRole', (role: string) => ({ role }))
+        .trait(
+          'editor',
+          { verified: true },
+          {
+            include: [['withRole', 'editor']],
+          }
+        );
+
+      const member = factory.build({ traits: ['editor'] });
+
+      expect(member.role).toBe('editor');
+      expect(member.verified).toBe(true);
+    });
+
+    it('throws on circular inclusions', () => {
+      const factory = memberFactory()
+        .trait('a', { role: 'a' })
+        .trait('b', { role: 'b' }, { include: ['a'] })
+        .trait('a', { role: 'a' }, { include: ['b'] });
+
+      expect(() => factory.build({ traits: ['a'] })).toThrow(
+        'Circular trait inclusion: a -> b -> a'
+      );
+    });
+
+    it('throws on unknown included traits', () => {
+      const factory = memberFactory().trait(
+        'admin',
+        { role: 'admin' },
+        {
+          include: ['verified' as never],
+        }
+      );
+
+      expect(() => factory.build({ traits: ['admin'] })).toThrow(
+        "Unknown trait 'verified'. Available traits: admin"
+      );
+    });
+  });
+
+  describe('factory scopes', () => {
+    interface Account {
+      id: number;
+      email: string;
+    }
+
+    beforeEach(() => {
+      resetSequence();
+      clearAllUniqueStores();
+    });
+
+    const id = sequence((n) => n);
+    const email = unique(() => 'same@example.com', 'email', {
+      maxRetries: 1,
+    });
+    const accountFactory = () => createFactory<Account>().define({ id, email });
+
+    it('keeps the sequences and unique values of each factory apart', () => {
+      const first = accountFactory().build();
+      const second = accountFactory().build();
+
+      expect(first).toEqual({ id: 1, email: 'same@example.com' });
+      expect(second).toEqual({ id: 1, email: 'same@example.com' });
+    });
+
+    it('shares sequences given an explicit id', () => {
+      const sharedId = sequence((n) => n, { id: 'shared' });
+      const factory = () =>
+        createFactory<Account>().define({ id: sharedId, email: 'a@b.c' });
+
+      expect(factory().build().id).toBe(1);
+      expect(factory().build().id).toBe(2);
+    });
+
+    it('gives extending factories their own scope', () => {
+      const parentFactory = accountFactory();
+      parentFactory.build();
+
+      expect(parentFactory.extend<Account>().build().id).toBe(1);
+      expect(() => parentFactory.build()).toThrow('email');
+    });
+
+    it('builds associated objects in the scope of their own factory', () => {
+      const ownerFactory = createFactory<Account>().define({
+        id,
+        email: 'owner@example.com',
+      });
+      const teamFactory = createFactory<{
+        id: number;
+        owner: Account;
+      }>().define({ id, owner: association(ownerFactory) });
+
+      const team = teamFactory.build();
+
+      expect(team.id).toBe(1);
+      expect(team.owner.id).toBe(1);
+      expect(ownerFactory.build().id).toBe(2);
+    });
+
+    it('resets the sequences, unique values and seed of the factory', () => {
+      const factory = createFactory<Account & { name: string }>()
+        .define({
+          id,
+          email,
+          name: (_account, faker) => faker.name.firstName(),
+        })
+        .seed('accounts');
+      const otherFactory = createFactory<Account>().define({
+        id,
+        email: 'other@example.com',
+      });
+      const first = factory.build();
+      otherFactory.build();
+
+      factory.reset();
+
+      expect(factory.build()).toEqual(first);
+      expect(otherFactory.build().id).toBe(2);
+    });
+  });
+
+  describe('validation', () => {
+    interface Account {
+      email: string;
+      profile: { age: number };
+      nickname?: string;
+    }
+
+    const accountFactory = () =>
+      createFactory<Account>()
+        .define({ email: 'alice@example.com', profile: { age: 30 } })
+        .trait('minor', { profile: { age: 12 } });
+
+    // Minimal zod-like schema
+    const accountSchema = {
+      safeParse: (value: unknown) => {
+        const { email, profile } = value as Account;
+        const issues = [
+          ...(email.includes('@')
+            ? []
+            : [{ path: ['email'], message: 'Invalid email' }]),
+          ...(profile.age >= 18
+            ? []
+            : [{ path: ['profile', 'age'], message: 'Too young' }]),
+        ];
+        return issues.length === 0
+          ? { success: true as const }
+          : { success: false as const, error: { issues } };
+      },
+    };
+
+    it('returns valid objects', () => {
+      const factory = accountFactory().validate(accountSchema);
+
+      expect(factory.build().email).toBe('alice@example.com');
+    });
+
+    it('reports the issues found by a safeParse schema', () => {
+      const factory = accountFactory().validate(accountSchema);
+
+      expect(() =>
+        factory.build({ traits: ['minor'], overrides: { email: 'alice' } })
+      ).toThrow(
+        'Factory built an invalid object with traits minor:\n  - email: Invalid email\n  - profile__age: Too young'
+      );
+    });
+
+    it('reports the issues returned by validator functions', () => {
+      const factory = accountFactory()
+        .validate(({ email }) => email.endsWith('.com') || 'Not a .com email')
+        .validate(({ profile }) =>
+          profile.age > 100
+            ? [{ path: 'profile__age', message: 'Too old' }]
+            : []
+        );
+
+      expect(factory.build).not.toThrow();
+      expect(() =>
+        factory.build({ overrides: { email: 'alice@example.org' } })
+      ).toThrow('  - (root): Not a .com email');
+      expect(() => factory.build({ overrides: { profile__age: 120 } })).toThrow(
+        '  - profile__age: Too old'
+      );
+    });
+
+    it('throws a FactoryValidationError naming registered factories', () => {
+      const factory = defineFactory(
+        'validatedAccount',
+        accountFactory().validate(() => false)
+      );
+
+      let error: unknown;
+      try {
+        factory.build({ traits: ['minor'] });
+      } catch (caught) {
+        error = caught;
+      } finally {
+        resetFactories();
+      }
+
+      expect(error).toBeInstanceOf(FactoryValidationError);
+      expect(error).toMatchObject({
+        factoryName: 'validatedAccount',
+        traits: ['minor'],
+        issues: [{ path: '', message: 'Invalid object' }],
+      });
+    });
+
+    it('validates objects after the afterBuild hooks', () => {
+      const factory = accountFactory()
+        .afterBuild((account) => ({ ...account, email: 'invalid' }))
+        .validate(accountSchema);
+
+      expect(factory.build).toThrow('email: Invalid email');
+    });
+
+    it('rejects attributes the factory does not define in strict mode', () => {
+      const factory = accountFactory().validate(accountSchema, {
+        strict: true,
+      });
+
+      expect(factory.build().email).toBe('alice@example.com');
+      expect(
+        factory.build({ overrides: { email: 'bob@example.com' } }).email
+      ).toBe('bob@example.com');
+      expect(() => factory.build({ overrides: { nickname: 'Al' } })).toThrow(
+        '  - nickname: Not defined by the factory'
+      );
+    });
+
+    it('rejects required attributes the factory does not define in strict mode', () => {
+      const factory = createFactory<Account>()
+        .define({ email: 'alice@example.com' })
+        .trait('adult', { profile: { age: 30 } })
+        .validate(() => true, { strict: true, required: ['profile'] });
+
+      expect(() => factory.build()).toThrow(
+        '  - profile: Not defined by the factory'
+      );
+      // Builds can't make up for the factory
+      expect(() =>
+        factory.build({ overrides: { profile: { age: 40 } } })
+      ).toThrow('  - profile: Not defined by the factory');
+      expect(factory.build({ traits: ['adult'] }).profile.age).toBe(30);
+    });
+
+    it('takes required attributes from schemas describing themselves', () => {
+      const schema = z.object({
+        email: z.string(),
+        profile: z.object({ age: z.number() }),
+        nickname: z.string().optional(),
+      });
+      const factory = createFactory<Account>()
+        .define({ email: 'alice@example.com' })
+        .validate(() => true)
+        .validate(schema, { strict: true });
+
+      expect(() => factory.build()).toThrow(
+        '  - profile: Not defined by the factory'
+      );
+    });
+
+    it('is inherited by child factories', () => {
+      const factory = accountFactory().validate(accountSchema);
+
+      expect(() =>
+        factory.extend<Account>().define({ email: 'invalid' }).build()
+      ).toThrow(FactoryValidationError);
+    });
+  });
+
+  describe('immutable definitions', () => {
+    interface Member {
+      id: number;
+      name: string;
+      role: string;
+    }
+
+    const memberFactory = () =>
+      createFactory<Member>()
+        .define({ id: sequence((n) => n), name: 'Alice', role: 'member' })
+        .trait('admin', { role: 'admin' });
+
+    it('leaves the factory untouched when configuring it', () => {
+      const factory = memberFactory();
+
+      const renamed = factory.define({ name: 'Bob' });
+      factory.trait('owner', { role: 'owner' });
+      factory.afterBuild((member) => ({ ...member, name: 'Changed' }));
+
+      expect(renamed).not.toBe(factory);
+      expect(renamed.build().name).toBe('Bob');
+      expect(factory.build().name).toBe('Alice');
+      // @ts-expect-error The trait was added to another factory
+      expect(() => factory.build({ traits: ['owner'] })).toThrow(
+        "Unknown trait 'owner'"
+      );
+    });
+
+    it('shares sequences between derived factories', () => {
+      const factory = memberFactory();
+      const renamed = factory.define({ name: 'Bob' });
+
+      expect(factory.build().id).toBe(1);
+      expect(renamed.build().id).toBe(2);
+    });
+
+    it('creates variants with preset build options', () => {
+      const adminFactory = memberFactory().with({
+        traits: ['admin'],
+        overrides: { name: 'Root' },
+      });
+
+      expect(adminFactory.build()).toMatchObject({
+        name: 'Root',
+        role: 'admin',
+      });
+      expect(adminFactory.build({ overrides: { name: 'Sudo' } })).toMatchObject(
+        { name: 'Sudo', role: 'admin' }
+      );
+    });
+
+    it('merges the options of chained variants', () => {
+      const factory = memberFactory()
+        .with({ traits: ['admin'] })
+        .with({ overrides: { name: 'Root' } });
+
+      expect(factory.build()).toMatchObject({ name: 'Root', role: 'admin' });
+    });
+
+    it('keeps variants from changing the factory', () => {
+      const factory = memberFactory();
+      factory.with({ traits: ['admin'] });
+
+      expect(factory.build().role).toBe('member');
+    });
+  });
+
+  describe('static defaults', () => {
+    interface Settings {
+      tags: string[];
+      settings: { theme: string; createdAt: Date };
+    }
+
+    const settingsFactory = () =>
+      createFactory<Settings>().define({
+        tags: [],
+        settings: { theme: 'light', createdAt: new Date('2024-01-01') },
+      });
+
+    it('gives every built object its own copy', () => {
+      const factory = settingsFactory();
+      const first = factory.build();
+      first.tags.push('changed');
+      first.settings.createdAt.setFullYear(2000);
+
+      const second = factory.build();
+
+      expect(second.tags).toEqual([]);
+      expect(second.settings.createdAt).toEqual(new Date('2024-01-01'));
+    });
+
+    it('keeps nested overrides from changing the defaults', () => {
+      const factory = settingsFactory();
+      factory.build({ overrides: { settings__theme: 'dark' } });
+
+      expect(factory.build().settings.theme).toBe('light');
+    });
+
+    it('copies the static attributes of traits', () => {
+      const factory = settingsFactory().trait('tagged', { tags: ['a'] });
+      factory.build({ traits: ['tagged'] }).tags.push('b');
+
+      expect(factory.build({ traits: ['tagged'] }).tags).toEqual(['a']);
+    });
+
+    it('keeps shared values by reference', () => {
+      const settings = shared({ theme: 'light', createdAt: new Date() });
+      const factory = settingsFactory().define({ settings });
+
+      expect(factory.build().settings).toBe(settings);
+    });
+
+    it('keeps class instances, with their private fields, by reference', () => {
+      class Money {
+        #cents: number;
+
+        constructor(cents: number) {
+          this.#cents = cents;
+        }
+
+        get cents(): number {
+          return this.#cents;
+        }
+      }
+
+      const price = new Money(100);
+      const product = createFactory<{ price: Money }>()
+        .define({ price })
+        .build();
+
+      expect(product.price).toBe(price);
+      expect(product.price.cents).toBe(100);
+    });
+
+    it('gives every built object its own copy of override values', () => {
+      const factory = settingsFactory();
+      const tagged = factory.with({ overrides: { tags: ['admin'] } });
+      tagged.build().tags.push('changed');
+
+      const createdAt = new Date('2024-01-01');
+      const [first, second] = factory.buildMany(2, {
+        overrides: { tags: ['a'], settings__createdAt: createdAt },
+      });
+      first.settings.createdAt.setFullYear(2000);
+
+      expect(tagged.build().tags).toEqual(['admin']);
+      expect(first.tags).not.toBe(second.tags);
+      expect(second.settings.createdAt).toEqual(new Date('2024-01-01'));
+      expect(createdAt).toEqual(new Date('2024-01-01'));
+    });
+
+    it('copies the class instances nested overrides reach', () => {
+      class Address {
+        constructor(
+          public city: string,
+          public lines: string[]
+        ) {}
+      }
+
+      const address = new Address('Paris', ['1 rue de Rivoli']);
+      const factory = createFactory<{ address: Address }>().define({ address });
+
+      const moved = factory.build({
+        overrides: { address__city: 'Lyon', address__lines__0: '2 quai' },
+      }).address;
+
+      expect(moved).toBeInstanceOf(Address);
+      expect(moved).toEqual({ city: 'Lyon', lines: ['2 quai'] });
+      expect(factory.build().address).toEqual({
+        city: 'Paris',
+        lines: ['1 rue de Rivoli'],
+      });
+      expect(address.lines).toEqual(['1 rue de Rivoli']);
+    });
+  });
+
+  describe('lazy generation', () => {
+    interface Row {
+      id: number;
+      label: string;
+    }
+
+    const rowFactory = () =>
+      createFactory<Row>().define({
+        id: sequence((n) => n),
+        label: 'row',
+      });
+
+    it('builds objects only as they are iterated', () => {
+      let builds = 0;
+      const iterator = rowFactory()
+        .afterBuild(() => {
+          builds++;
+        })
+        .buildIterator(3);
+
+      expect(builds).toBe(0);
+      expect(iterator.next().value).toEqual({ id: 1, label: 'row' });
+      expect(builds).toBe(1);
+      expect([...iterator].map(({ id }) => id)).toEqual([2, 3]);
+    });
+
+    it('builds endlessly without a count', () => {
+      const iterator = rowFactory().buildIterator();
+      const ids: number[] = [];
+      for (const { id } of iterator) {
+        ids.push(id);
+        if (ids.length === 5) break;
+      }
+
+      expect(ids).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('advances sequences and unique values like buildMany', () => {
+      const label = unique(
+        () => faker.datatype.number({ max: 30 }).toString(),
+        'label'
+      );
+      const factory = rowFactory().define({ label });
+
+      const rows = [...factory.buildIterator(5), ...factory.buildMany(5)];
+
+      expect(rows.map(({ id }) => id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      expect(new Set(rows.map((row) => row.label)).size).toBe(10);
+    });
+
+    it('applies per-item customizations', () => {
+      const rows = [
+        ...rowFactory().buildIterator(2, {
+          customize: (index) => ({ overrides: { label: `row ${index}` } }),
+        }),
+      ];
+
+      expect(rows.map(({ label }) => label)).toEqual(['row 0', 'row 1']);
+    });
+
+    it('persists objects in batches as the stream is iterated', async () => {
+      const savedBatches: number[] = [];
+      const adapter: PersistenceAdapter<Row, Row> = {
+        save: (row) => Promise.resolve(row),
+        saveMany: (rows) => {
+          savedBatches.push(rows.length);
+          return Promise.resolve(rows);
+        },
+      };
+      const factory = rowFactory()
+        .adapter(adapter)
+        .afterCreate((row) => ({ ...row, label: 'saved' }));
+
+      const records: Row[] = [];
+      for await (const record of factory.createStream(5, { batchSize: 2 })) {
+        records.push(record);
+      }
+
+      expect(savedBatches).toEqual([2, 2, 1]);
+      expect(records.map(({ id }) => id)).toEqual([1, 2, 3, 4, 5]);
+      expect(records.every(({ label }) => label === 'saved')).toBe(true);
+    });
+
+    it('stops building when the stream is no longer iterated', async () => {
+      const adapter = createMemoryAdapter<Row>();
+      const factory = rowFactory().adapter(adapter);
+
+      for await (const record of factory.createStream(undefined, {
+        batchSize: 3,
+      })) {
+        if (record.id === 4) break;
+      }
+
+      expect(adapter.records).toHaveLength(6);
+    });
+  });
+
+  describe('build plans', () => {
+    interface Badge {
+      label: string;
+      color: string;
+      level: number;
+    }
+
+    const badgeFactory = () =>
+      createFactory<Badge>()
+        .define({ label: 'Badge', color: 'grey', level: 1 })
+        .trait('gold', { color: 'gold' })
+        .trait('level', (level: number) => ({ level }));
+
+    it('reuses plans across builds with the same traits', () => {
+      const factory = badgeFactory();
+
+      expect(factory.build({ traits: ['gold'] }).color).toBe('gold');
+      expect(factory.build().color).toBe('grey');
+      expect(factory.build({ traits: ['gold'] }).color).toBe('gold');
+    });
+
+    it('applies parameterized traits with the arguments of each build', () => {
+      const factory = badgeFactory();
+
+      expect(factory.build({ traits: [['level', 2]] }).level).toBe(2);
+      expect(factory.build({ traits: [['level', 3]] }).level).toBe(3);
+    });
+
+    it('applies traits defined with a function on every build', () => {
+      let calls = 0;
+      const factory = createFactory<{ n: number }>()
+        .define({ n: 0 })
+        .trait('random', () => ({ n: ++calls }))
+        .trait('tagged', { n: -1 }, { include: ['random'] });
+
+      expect(
+        factory.buildMany(3, { traits: ['random'] }).map(({ n }) => n)
+      ).toEqual([1, 2, 3]);
+      expect(factory.buildMany(2, { traits: ['tagged'] })).toHaveLength(2);
+      expect(calls).toBe(5);
+    });
+
+    it('compiles new plans for redefined factories', () => {
+      const factory = badgeFactory();
+      factory.build({ traits: ['gold'] });
+
+      const redefined = factory
+        .define({ label: 'Redefined' })
+        .trait('gold', { color: 'yellow' });
+
+      expect(redefined.build({ traits: ['gold'] })).toMatchObject({
+        label: 'Redefined',
+        color: 'yellow',
+      });
+      expect(factory.build({ traits: ['gold'] })).toMatchObject({
+        label: 'Badge',
+        color: 'gold',
+      });
+    });
+
+    it('builds associations given as top-level overrides', () => {
+      const ownerFactory = createFactory<{ name: string }>().define({
+        name: 'Owner',
+      });
+      const factory = createFactory<{ owner?: { name: string } }>();
+
+      expect(
+        factory.build({ overrides: { owner: association(ownerFactory) } }).owner
+      ).toEqual({ name: 'Owner' });
+    });
+  });
+
+  describe('class instances', () => {
+    class Address {
+      city: string;
+      street: string;
+
+      constructor({ city, street }: { city: string; street: string }) {
+        this.city = city;
+        this.street = street;
+      }
+    }
+
+    class Account {
+      readonly #id: number;
+      name: string;
+      address: Address;
+
+      constructor({
+        id,
+        name,
+        address,
+      }: {
+        id: number;
+        name: string;
+        address: { city: string; street: string };
+      }) {
+        this.#id = id;
+        this.name = name;
+        this.address = new Address(address);
+      }
+
+      get id(): number {
+        return this.#id;
+      }
+
+      greet(): string {
+        return `Hello, ${this.name}`;
+      }
+    }
+
+    const accountFactory = () =>
+      createFactory(Account).define({
+        id: 1,
+        name: 'Ada',
+        address: { city: 'London', street: 'Baker Street' },
+      });
+
+    it('passes the resolved attributes to the constructor', () => {
+      const account = accountFactory().build();
+
+      expect(account).toBeInstanceOf(Account);
+      expect(account.address).toBeInstanceOf(Address);
+      expect(account.id).toBe(1);
+      expect(account.greet()).toBe('Hello, Ada');
+    });
+
+    it('builds objects with the initializer option', () => {
+      const factory = createFactory<Account>({
+        initializer: ({ id, name, address }) =>
+          new Account({ id, name: name.toUpperCase(), address }),
+      }).define({
+        id: 2,
+        name: 'Grace',
+        address: { city: 'Arlington', street: 'Main Street' },
+      });
+
+      const account = factory.build();
+
+      expect(account).toBeInstanceOf(Account);
+      expect(account.name).toBe('GRACE');
+    });
+
+    it('applies nested overrides on the final object', () => {
+      const account = accountFactory().build({
+        overrides: { id: 5, address__city: 'Paris' },
+      });
+
+      expect(account.id).toBe(5);
+      expect(account.address).toBeInstanceOf(Address);
+      expect(account.address.city).toBe('Paris');
+      expect(account.address.street).toBe('Baker Street');
+    });
+
+    it('leaves getters and attributes the constructor maps elsewhere alone', () => {
+      class Tag {
+        private readonly normalized: string;
+
+        constructor({ label }: { label: string }) {
+          this.normalized = label.toUpperCase();
+        }
+
+        get label(): string {
+          return this.normalized;
+        }
+      }
+
+      interface OwnerAttributes {
+        owner: string;
+        profile: { bio: string };
+      }
+
+      class Owner {
+        ownerName: string;
+        details: { bio: string };
+
+        constructor({ owner, profile }: OwnerAttributes) {
+          this.ownerName = owner;
+          this.details = { ...profile };
+        }
+      }
+
+      const tag = createFactory(Tag)
+        .define({ label: 'a' })
+        .build({ overrides: { label: 'b' } });
+      // The factory is typed by the attributes, which the constructor maps to other properties
+      const owner = createFactory(
+        Owner as unknown as FactoryConstructor<OwnerAttributes>
+      )
+        .define({ owner: 'Ada', profile: { bio: 'Hello' } })
+        .build({ overrides: { owner: 'Bo', profile__bio: 'Hi' } });
+
+      expect(tag.label).toBe('B');
+      expect(owner).toEqual({ ownerName: 'Bo', details: { bio: 'Hi' } });
+      expect(owner).not.toHaveProperty('owner');
+      expect(owner).not.toHaveProperty('profile');
+    });
+
+    it('hands instances to hooks and keeps building them with traits', () => {
+      const seen: unknown[] = [];
+      const factory = accountFactory()
+        .trait('parisian', { address: { city: 'Paris', street: 'Rue' } })
+        .afterBuild((account) => {
+          seen.push(account);
+        });
+
+      const account = factory.build({ traits: ['parisian'] });
+
+      expect(seen).toEqual([account]);
+      expect(account).toBeInstanceOf(Account);
+      expect(account.address.city).toBe('Paris');
+    });
+
+    it('keeps the constructor in derived factories', () => {
+      expect(
+        accountFactory().trait('bo', { name: 'Bo' }).build()
+      ).toBeInstanceOf(Account);
+      expect(
+        accountFactory()
+          .with({ overrides: { name: 'Bo' } })
+          .build()
+      ).toBeInstanceOf(Account);
+    });
+
+    it('builds extended factories with the constructor they are given', () => {
+      class Employee extends Account {
+        role: string;
+
+        constructor(
+          attributes: ConstructorParameters<typeof Account>[0] & {
+            role: string;
+          }
+        ) {
+          super(attributes);
+          this.role = attributes.role;
+        }
+      }
+
+      const employee = accountFactory()
+        .extend(Employee)
+        .define({ role: 'Engineer' })
+        .build();
+
+      expect(employee).toBeInstanceOf(Employee);
+      expect(employee.role).toBe('Engineer');
+      expect(employee.greet()).toBe('Hello, Ada');
+
+      const initialized = accountFactory()
+        .extend<Employee>({
+          initializer: ({ id, name, address }) =>
+            new Employee({ id, name, address, role: 'Manager' }),
+        })
+        .build();
+
+      expect(initialized.role).toBe('Manager');
+    });
+
+    it('does not hand the constructor to extended factories', () => {
+      const factory = accountFactory().extend<Account & { role: string }>();
+
+      expect(factory.build()).not.toBeInstanceOf(Account);
+    });
   });
 });
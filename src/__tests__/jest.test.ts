@@ -0,0 +1,38 @@
+import { configureFactoryKit } from '@/jest';
+import { sequence } from '@/sequence';
+import { faker } from '@faker-js/faker';
+
+// Tests run in order: each one checks that the previous one left no trace
+describe('jest setup', () => {
+  const id = sequence((n) => n, { id: 'jest-setup' });
+
+  it('starts with fresh counters', () => {
+    expect(id()).toBe(1);
+    expect(id()).toBe(2);
+  });
+
+  it('restores counters changed by previous tests', () => {
+    expect(id()).toBe(1);
+  });
+});
+
+describe('jest setup seeded from test names', () => {
+  const names: string[] = [];
+
+  beforeAll(() => {
+    configureFactoryKit({ seedFromTestName: true });
+  });
+
+  afterAll(() => {
+    configureFactoryKit({ seedFromTestName: false });
+  });
+
+  it('generates data', () => {
+    names.push(faker.name.firstName());
+  });
+
+  it('generates data', () => {
+    names.push(faker.name.firstName());
+    expect(names[1]).toBe(names[0]);
+  });
+});
@@ -0,0 +1,134 @@
+import { association, list } from '@/association';
+import { createFactory } from '@/factory';
+import {
+  defineFactory,
+  factories,
+  listFactories,
+  resetFactories,
+} from '@/registry';
+
+interface User {
+  name: string;
+}
+
+interface Post {
+  title: string;
+  author: User;
+}
+
+afterEach(() => {
+  resetFactories();
+});
+
+describe('defineFactory', () => {
+  it('registers the factory under its name', () => {
+    const userFactory = defineFactory(
+      'user',
+      createFactory<User>().define({ name: 'Alice' })
+    );
+
+    expect(factories.get<User>('user')).toBe(userFactory);
+    expect(factories.has('user')).toBe(true);
+  });
+
+  it('rejects duplicate names', () => {
+    defineFactory('user', createFactory<User>());
+
+    expect(() => defineFactory('user', createFactory<User>())).toThrow(
+      "Factory 'user' is already registered"
+    );
+  });
+
+  it('does not register factories derived from the registered one', () => {
+    const userFactory = defineFactory(
+      'user',
+      createFactory<User>().define({ name: 'Alice' })
+    );
+    factories.get<User>('user').define({ name: 'Bob' });
+    userFactory.with({ overrides: { name: 'Bob' } });
+    userFactory.extend<User>();
+
+    expect(factories.get('user')).toBe(userFactory);
+    expect(factories.get<User>('user').build()).toEqual({ name: 'Alice' });
+  });
+});
+
+describe('factories.get', () => {
+  it('reports the registered factories for unknown names', () => {
+    defineFactory('user', createFactory<User>());
+    defineFactory('post', createFactory<Post>());
+
+    expect(() => factories.get('comment')).toThrow(
+      "Unknown factory 'comment'. Registered factories: user, post"
+    );
+  });
+
+  it('reports an empty registry', () => {
+    expect(() => factories.get('user')).toThrow(
+      "Unknown factory 'user'. Registered factories: none"
+    );
+  });
+});
+
+describe('listFactories', () => {
+  it('lists the names in registration order', () => {
+    defineFactory('user', createFactory<User>());
+    defineFactory('post', createFactory<Post>());
+
+    expect(listFactories()).toEqual(['user', 'post']);
+  });
+});
+
+describe('resetFactories', () => {
+  it('empties the registry', () => {
+    defineFactory('user', createFactory<User>());
+    resetFactories();
+
+    expect(listFactories()).toEqual([]);
+    expect(factories.has('user')).toBe(false);
+  });
+});
+
+describe('associations by name', () => {
+  it('look up the factory when building', () => {
+    const postFactory = createFactory<Post>().define({
+      title: 'Post',
+      author: association<User>('user'),
+    });
+    // Registered after the association is declared
+    defineFactory(
+      'user',
+      createFactory<User>()
+        .define({ name: 'Alice' })
+        .trait('bob', { name: 'Bob' })
+    );
+
+    expect(postFactory.build().author).toEqual({ name: 'Alice' });
+    expect(
+      postFactory.build({ overrides: { author__name: 'Carol' } }).author
+    ).toEqual({ name: 'Carol' });
+  });
+
+  it('apply traits of the registered factory', () => {
+    defineFactory(
+      'user',
+      createFactory<User>()
+        .define({ name: 'Alice' })
+        .trait('bob', { name: 'Bob' })
+    );
+
+    expect(list<User>('user', 2, { traits: ['bob'] })()).toEqual([
+      { name: 'Bob' },
+      { name: 'Bob' },
+    ]);
+  });
+
+  it('fail to build when the factory is not registered', () => {
+    const postFactory = createFactory<Post>().define({
+      title: 'Post',
+      author: association<User>('user'),
+    });
+
+    expect(postFactory.build).toThrow("Unknown factory 'user'");
+  });
+});
@@ -0,0 +1,197 @@
+import { createFactoryFromSchema } from '@/schema';
+import type { JsonSchema } from '@/types';
+import { faker } from '@faker-js/faker';
+import { z } from 'zod';
+
+interface User {
+  id: string;
+  email: string;
+  age: number;
+  score: number;
+  role: 'admin' | 'member';
+  createdAt: string;
+  tags: string[];
+  nickname?: string;
+  address: { city: string; zip?: string };
+}
+
+const userSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    email: { type: 'string', format: 'email' },
+    age: { type: 'integer', minimum: 18, maximum: 30 },
+    score: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+    role: { enum: ['admin', 'member'] },
+    createdAt: { type: 'string', format: 'date-time' },
+    tags: {
+      type: 'array',
+      items: { type: 'string', minLength: 2, maxLength: 4 },
+      minItems: 2,
+      maxItems: 2,
+    },
+    nickname: { type: 'string' },
+    address: {
+      type: 'object',
+      properties: { city: { type: 'string' }, zip: { type: 'string' } },
+      required: ['city'],
+    },
+  },
+  required: ['id', 'email', 'age', 'score', 'role', 'createdAt', 'tags'],
+};
+
+describe('createFactoryFromSchema', () => {
+  it('generates values matching the types, formats and bounds of a JSON Schema', () => {
+    const user = createFactoryFromSchema<User>(userSchema).build();
+
+    expect(user.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-/);
+    expect(user.email).toContain('@');
+    expect(Number.isInteger(user.age)).toBe(true);
+    expect(user.age).toBeGreaterThanOrEqual(18);
+    expect(user.age).toBeLessThanOrEqual(30);
+    expect(user.score).toBeGreaterThan(0);
+    expect(user.score).toBeLessThan(1);
+    expect(['admin', 'member']).toContain(user.role);
+    expect(new Date(user.createdAt).toISOString()).toBe(user.createdAt);
+    expect(user.tags).toHaveLength(2);
+    expect(user.tags.every(({ length }) => length >= 2 && length <= 4)).toBe(
+      true
+    );
+    expect(typeof user.address.city).toBe('string');
+  });
+
+  it('generates optional properties unless asked not to', () => {
+    expect(createFactoryFromSchema<User>(userSchema).build()).toHaveProperty(
+      'nickname'
+    );
+
+    const user = createFactoryFromSchema<User>(userSchema, {
+      optionalProperties: false,
+    }).build();
+    expect(user).not.toHaveProperty('nickname');
+    expect(user).not.toHaveProperty('address');
+  });
+
+  it('creates a factory that can be refined', () => {
+    const userFactory = createFactoryFromSchema<User>(userSchema)
+      .define({ email: 'fixed@example.com' })
+      .trait('admin', { role: 'admin' });
+
+    const user = userFactory.build({ traits: ['admin'] });
+
+    expect(user.email).toBe('fixed@example.com');
+    expect(user.role).toBe('admin');
+  });
+
+  it('generates with the faker instance of the factory', () => {
+    const userFactory = createFactoryFromSchema<User>(userSchema).seed(42);
+    const first = userFactory.build();
+    userFactory.reset();
+    const second = userFactory.build();
+
+    // Dates are generated relative to the current time
+    expect(second.id).toBe(first.id);
+    expect(second.email).toBe(first.email);
+    expect(second.tags).toEqual(first.tags);
+  });
+
+  it('resolves references, allOf, anyOf and const', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        home: { $ref: '#/$defs/address' },
+        kind: { const: 'customer' },
+        contact: {
+          allOf: [
+            { properties: { phone: { type: 'string' } }, required: ['phone'] },
+            { properties: { email: { type: 'string', format: 'email' } } },
+          ],
+        },
+        manager: { anyOf: [{ type: 'null' }, { type: 'boolean' }] },
+      },
+      $defs: {
+        address: {
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+        },
+      },
+    };
+
+    const customer = createFactoryFromSchema(schema).build();
+
+    expect(customer).toMatchObject({
+      home: { city: expect.any(String) as unknown },
+      kind: 'customer',
+      contact: {
+        phone: expect.any(String) as unknown,
+        email: expect.stringContaining('@') as unknown,
+      },
+      manager: expect.any(Boolean) as unknown,
+    });
+  });
+
+  it('stops recursive schemas at the first repetition', () => {
+    const schema: JsonSchema = {
+      $ref: '#/$defs/node',
+      $defs: {
+        node: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/node' } },
+          },
+          required: ['name'],
+        },
+      },
+    };
+
+    const node = createFactoryFromSchema<{
+      children: Array<{ children?: unknown[] }>;
+    }>(schema).build();
+
+    expect(node.children.length).toBeGreaterThan(0);
+    expect(node.children[0].children).toBeUndefined();
+  });
+
+  it('rejects schemas requiring infinite recursion', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { node: { $ref: '#/$defs/node' } },
+      $defs: {
+        node: {
+          type: 'object',
+          properties: { next: { $ref: '#/$defs/node' } },
+          required: ['next'],
+        },
+      },
+    };
+
+    expect(createFactoryFromSchema(schema).build).toThrow(
+      'Cannot generate recursive schema: #/$defs/node -> #/$defs/node'
+    );
+  });
+
+  it('rejects schemas that do not describe objects', () => {
+    expect(() => createFactoryFromSchema({ type: 'string' })).toThrow(
+      'createFactoryFromSchema() needs a schema of objects'
+    );
+  });
+
+  it('generates objects from zod schemas', () => {
+    const accountSchema = z.object({
+      id: z.uuid(),
+      email: z.email(),
+      plan: z.enum(['free', 'pro']),
+      seats: z.number().int().min(1).max(10),
+      createdAt: z.date(),
+    });
+
+    const accountFactory = createFactoryFromSchema<
+      z.infer<typeof accountSchema>
+    >(accountSchema).define({ createdAt: () => faker.date.past() });
+
+    // Dates have no JSON Schema counterpart and are defined by hand
+    expect(accountSchema.safeParse(accountFactory.build()).success).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+import { createFactory } from '@/factory';
+import { setSeed } from '@/seed';
+import { faker } from '@faker-js/faker';
+
+interface User {
+  id: number;
+  name: string;
+  email: string;
+}
+
+describe('setSeed', () => {
+  const userFactory = createFactory<User>().define({
+    id: () => faker.datatype.number(),
+    name: () => faker.name.fullName(),
+    email: (_user, faker) => faker.internet.email(),
+  });
+
+  it('produces the same objects for the same numeric seed', () => {
+    setSeed(42);
+    const first = userFactory.buildMany(3);
+
+    setSeed(42);
+    const second = userFactory.buildMany(3);
+
+    expect(second).toEqual(first);
+  });
+
+  it('produces the same objects for the same string seed', () => {
+    setSeed('consistent-test-data-seed');
+    const first = userFactory.build();
+
+    setSeed('consistent-test-data-seed');
+    const second = userFactory.build();
+
+    expect(second).toEqual(first);
+  });
+
+  it('produces different objects for different seeds', () => {
+    setSeed('first-seed');
+    const first = userFactory.build();
+
+    setSeed('second-seed');
+    const second = userFactory.build();
+
+    expect(second).not.toEqual(first);
+  });
+});
@@ -0,0 +1,101 @@
+import { createFactory } from '@/factory';
+import { sequence } from '@/sequence';
+import {
+  registerTestIsolation,
+  restoreState,
+  snapshotState,
+  type TestRunnerHooks,
+} from '@/testing';
+import { clearAllUniqueStores, unique } from '@/unique';
+import { faker } from '@faker-js/faker';
+
+describe('snapshotState', () => {
+  beforeEach(() => {
+    clearAllUniqueStores();
+  });
+
+  it('restores sequence counters and unique values', () => {
+    const id = sequence((n) => n);
+    const email = unique(() => 'same@example.com', 'email');
+    const accountFactory = createFactory<{
+      id: number;
+      email: string;
+    }>().define({ id, email });
+    const snapshot = snapshotState();
+
+    expect(accountFactory.build()).toEqual({
+      id: 1,
+      email: 'same@example.com',
+    });
+    restoreState(snapshot);
+
+    // The counter and the claimed email are both released
+    expect(accountFactory.build()).toEqual({
+      id: 1,
+      email: 'same@example.com',
+    });
+  });
+
+  it('can restore the same snapshot several times', () => {
+    const id = sequence((n) => n, { id: 'restored' });
+    const snapshot = snapshotState();
+
+    id();
+    restoreState(snapshot);
+    expect(id()).toBe(1);
+
+    restoreState(snapshot);
+    expect(id()).toBe(1);
+  });
+});
+
+describe('registerTestIsolation', () => {
+  // Test runner hooks run by hand
+  const createHooks = (testName?: string) => {
+    const before: Array<() => void> = [];
+    const after: Array<() => void> = [];
+    const hooks: TestRunnerHooks = {
+      beforeEach: (fn) => before.push(fn),
+      afterEach: (fn) => after.push(fn),
+      getTestName: () => testName,
+    };
+    const runTest = (test: () => void) => {
+      before.forEach((fn) => {
+        fn();
+      });
+      test();
+      after.forEach((fn) => {
+        fn();
+      });
+    };
+
+    return { hooks, runTest };
+  };
+
+  it('restores the state after each test', () => {
+    const { hooks, runTest } = createHooks();
+    const id = sequence((n) => n, { id: 'isolated' });
+    registerTestIsolation(hooks);
+
+    runTest(() => {
+      expect(id()).toBe(1);
+      expect(id()).toBe(2);
+    });
+    runTest(() => {
+      expect(id()).toBe(1);
+    });
+  });
+
+  it('seeds faker from the test name when asked to', () => {
+    const { hooks, runTest } = createHooks('users > builds a user');
+    const options = { seedFromTestName: false };
+    registerTestIsolation(hooks, options);
+    options.seedFromTestName = true;
+
+    const names: string[] = [];
+    runTest(() => names.push(faker.name.firstName()));
+    runTest(() => names.push(faker.name.firstName()));
+
+    expect(names[1]).toBe(names[0]);
+  });
+});
@@ -1,5 +1,12 @@
 import { createFactory } from '@/factory';
-import { clearAllUniqueStores, clearUniqueStore, unique } from '@/unique';
+import { sequence } from '@/sequence';
+import {
+  clearAllUniqueStores,
+  clearUniqueStore,
+  getUniqueStats,
+  unique,
+  UniqueExhaustedError,
+} from '@/unique';
 import { faker } from '@faker-js/faker';
 
 describe('unique', () => {
@@ -139,3 +146,296 @@ describe('unique', () => {
     expect(product3.sku).toBe('SKU-2');
   });
 });
+
+describe('structured uniqueness', () => {
+  beforeEach(() => {
+    clearAllUniqueStores();
+  });
+
+  it('compares objects by reference by default', () => {
+    const uniqueGenerator = unique(() => ({ city: 'Paris' }), 'address');
+
+    expect(uniqueGenerator()).toEqual({ city: 'Paris' });
+    expect(uniqueGenerator()).toEqual({ city: 'Paris' });
+  });
+
+  it('compares values by the result of the key option', () => {
+    const cities = ['Paris', 'paris', 'Lyon'];
+    const uniqueGenerator = unique(
+      () => ({ city: cities.shift() ?? '' }),
+      'address',
+      { key: ({ city }) => city.toLowerCase() }
+    );
+
+    expect(uniqueGenerator()).toEqual({ city: 'Paris' });
+    expect(uniqueGenerator()).toEqual({ city: 'Lyon' });
+  });
+
+  it('compares objects, arrays and dates by content in deep mode', () => {
+    const values = [
+      { city: 'Paris', tags: ['a'], since: new Date('2023-01-01') },
+      { tags: ['a'], since: new Date('2023-01-01'), city: 'Paris' },
+      { city: 'Paris', tags: ['b'], since: new Date('2023-01-01') },
+    ];
+    const uniqueGenerator = unique(() => values.shift(), 'address', {
+      deep: true,
+    });
+
+    expect(uniqueGenerator()?.tags).toEqual(['a']);
+    expect(uniqueGenerator()?.tags).toEqual(['b']);
+  });
+
+  it('makes tuples unique by content in deep mode', () => {
+    const uniqueGenerator = unique((): [number, number] => [1, 2], 'key', {
+      deep: true,
+      maxRetries: 3,
+    });
+
+    uniqueGenerator();
+
+    expect(() => uniqueGenerator()).toThrow('Could not generate unique value');
+  });
+});
+
+describe('composite uniqueness', () => {
+  interface Person {
+    firstName: string;
+    lastName: string;
+    age: number;
+  }
+
+  beforeEach(() => {
+    clearAllUniqueStores();
+  });
+
+  // Cycles through the given values
+  const cycle = <T>(values: T[]) => {
+    let index = 0;
+    return () => values[index++ % values.length];
+  };
+
+  it('resolves attributes again until the combination is unique', () => {
+    const personFactory = createFactory<Person>()
+      .define({
+        firstName: cycle(['Jane', 'Jane', 'John']),
+        lastName: cycle(['Doe', 'Doe', 'Doe', 'Smith']),
+        age: 30,
+      })
+      .unique(['firstName', 'lastName']);
+
+    const people = personFactory.buildMany(3);
+
+    expect(
+      people.map(({ firstName, lastName }) => [firstName, lastName])
+    ).toEqual([
+      ['Jane', 'Doe'],
+      ['John', 'Doe'],
+      ['Jane', 'Smith'],
+    ]);
+  });
+
+  it('throws once the retries are exhausted', () => {
+    const personFactory = createFactory<Person>()
+      .define({ firstName: 'Jane', lastName: 'Doe', age: 30 })
+      .unique(['firstName', 'lastName'], { maxRetries: 5 });
+
+    personFactory.build();
+
+    expect(() => personFactory.build()).toThrow(
+      "Could not generate unique combination for fields 'firstName, lastName' after 5 attempts"
+    );
+  });
+
+  it('scopes combinations by factoryId and clears them with the stores', () => {
+    const factory = (factoryId: string) =>
+      createFactory<Person>()
+        .define({ firstName: 'Jane', lastName: 'Doe', age: 30 })
+        .unique(['firstName', 'lastName'], { factoryId, maxRetries: 1 });
+
+    factory('first').build();
+    expect(() => factory('second').build()).not.toThrow();
+    expect(() => factory('first').build()).toThrow();
+
+    clearUniqueStore('first');
+    expect(() => factory('first').build()).not.toThrow();
+  });
+
+  it('does not claim a combination when another constraint fails', () => {
+    const personFactory = createFactory<Person>()
+      .define({
+        firstName: 'Jane',
+        lastName: cycle(['Doe', 'Doe', 'Doe', 'Smith']),
+        age: 30,
+      })
+      .unique(['firstName', 'age'], { factoryId: 'ages' })
+      .unique(['lastName']);
+
+    personFactory.build();
+    clearUniqueStore('ages');
+
+    // Attempts breaking the lastName constraint leave the (firstName, age) combination free
+    expect(personFactory.build().lastName).toBe('Smith');
+  });
+
+  it('releases the values used by discarded attempts', () => {
+    const factory = createFactory<Person & { id: number; code: string }>()
+      .define({
+        id: sequence((n) => n),
+        code: unique(cycle(['a', 'b', 'c']), 'code'),
+        firstName: cycle(['Jane', 'Jane', 'John']),
+        lastName: 'Doe',
+        age: 30,
+      })
+      .unique(['firstName', 'lastName']);
+
+    const people = factory.buildMany(2);
+
+    expect(people.map(({ id, code }) => [id, code])).toEqual([
+      [1, 'a'],
+      [2, 'c'],
+    ]);
+    expect(
+      getUniqueStats().find(({ fieldName }) => fieldName === 'code')?.size
+    ).toBe(2);
+  });
+});
+
+describe('exhaustion', () => {
+  beforeEach(() => {
+    clearAllUniqueStores();
+  });
+
+  it('throws a UniqueExhaustedError describing the store', () => {
+    const uniqueGenerator = unique(() => 'same', 'code', {
+      factoryId: 'codes',
+      maxRetries: 4,
+    });
+    uniqueGenerator();
+
+    let error: unknown;
+    try {
+      uniqueGenerator();
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(error).toBeInstanceOf(UniqueExhaustedError);
+    expect(error).toMatchObject({
+      name: 'UniqueExhaustedError',
+      factoryId: 'codes',
+      fieldName: 'code',
+      attempts: 4,
+      storeSize: 1,
+    });
+  });
+
+  it('throws a UniqueExhaustedError for composite uniqueness', () => {
+    const factory = createFactory<{ a: number; b: number }>()
+      .define({ a: 1, b: 2 })
+      .unique(['a', 'b'], { maxRetries: 2 });
+    factory.build();
+
+    expect(() => factory.build()).toThrow(UniqueExhaustedError);
+  });
+
+  it('appends a numeric suffix to strings with the suffix strategy', () => {
+    const uniqueGenerator = unique(() => 'jane', 'username', {
+      maxRetries: 2,
+      onExhausted: 'suffix',
+    });
+
+    expect([uniqueGenerator(), uniqueGenerator(), uniqueGenerator()]).toEqual([
+      'jane',
+      'jane-1',
+      'jane-2',
+    ]);
+  });
+
+  it('throws with the suffix strategy when values are not strings', () => {
+    const uniqueGenerator = unique(() => 1, 'number', {
+      maxRetries: 2,
+      onExhausted: 'suffix',
+    });
+    uniqueGenerator();
+
+    expect(() => uniqueGenerator()).toThrow(UniqueExhaustedError);
+  });
+
+  it('switches to the wider generator with the widen strategy', () => {
+    let widened = 0;
+    const uniqueGenerator = unique(() => 0, 'number', {
+      maxRetries: 2,
+      onExhausted: { widen: () => ++widened * 100 },
+    });
+
+    expect([uniqueGenerator(), uniqueGenerator(), uniqueGenerator()]).toEqual([
+      0, 100, 200,
+    ]);
+  });
+
+  it('uses the value returned by the onExhausted callback', () => {
+    const contexts: unknown[] = [];
+    const uniqueGenerator = unique(() => 'same', 'code', {
+      maxRetries: 3,
+      onExhausted: (context) => {
+        contexts.push(context);
+        return `fallback-${context.storeSize}`;
+      },
+    });
+    uniqueGenerator();
+
+    expect(uniqueGenerator()).toBe('fallback-1');
+    expect(contexts).toEqual([
+      { factoryId: 'default', fieldName: 'code', attempts: 3, storeSize: 1 },
+    ]);
+  });
+
+  it('throws when the onExhausted callback returns a used value', () => {
+    const uniqueGenerator = unique(() => 'same', 'code', {
+      maxRetries: 1,
+      onExhausted: () => 'same',
+    });
+    uniqueGenerator();
+
+    expect(() => uniqueGenerator()).toThrow(UniqueExhaustedError);
+  });
+});
+
+describe('getUniqueStats', () => {
+  beforeEach(() => {
+    clearAllUniqueStores();
+  });
+
+  it('reports the size and collision rate of each store', () => {
+    let active = false;
+    const uniqueGenerator = unique(() => (active = !active), 'active', {
+      factoryId: 'stats',
+      maxRetries: 2,
+    });
+    uniqueGenerator();
+    uniqueGenerator();
+
+    expect(() => uniqueGenerator()).toThrow();
+    expect(
+      getUniqueStats().filter(({ factoryId }) => factoryId === 'stats')
+    ).toEqual([
+      {
+        factoryId: 'stats',
+        fieldName: 'active',
+        size: 2,
+        attempts: 4,
+        collisions: 2,
+        collisionRate: 0.5,
+      },
+    ]);
+  });
+
+  it('resets the statistics of cleared stores', () => {
+    unique(() => 'value', 'field', { factoryId: 'stats' })();
+    clearUniqueStore('stats');
+
+    expect(
+      getUniqueStats().filter(({ factoryId }) => factoryId === 'stats')
+    ).toEqual([]);
+  });
+});
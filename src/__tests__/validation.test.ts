@@ -0,0 +1,81 @@
+import {
+  FactoryValidationError,
+  getRequiredKeys,
+  validateInstance,
+} from '@/validation';
+import { z } from 'zod';
+
+describe('validateInstance', () => {
+  it('turns safeParse issue paths into override paths', () => {
+    const schema = {
+      safeParse: () => ({
+        success: false as const,
+        error: {
+          issues: [{ path: ['comments', 0, 'body'], message: 'Required' }],
+        },
+      }),
+    };
+
+    expect(validateInstance(schema, {})).toEqual([
+      { path: 'comments__0__body', message: 'Required' },
+    ]);
+  });
+
+  it('accepts objects validated by a safeParse schema', () => {
+    expect(
+      validateInstance({ safeParse: () => ({ success: true as const }) }, {})
+    ).toEqual([]);
+  });
+
+  it('reports false and messages as issues of the object itself', () => {
+    expect(validateInstance(() => false, {})).toEqual([
+      { path: '', message: 'Invalid object' },
+    ]);
+    expect(validateInstance(() => 'Broken', {})).toEqual([
+      { path: '', message: 'Broken' },
+    ]);
+  });
+
+  it('accepts objects when validator functions report nothing', () => {
+    expect(validateInstance(() => true, {})).toEqual([]);
+    expect(validateInstance(() => undefined, {})).toEqual([]);
+    expect(validateInstance(() => [], {})).toEqual([]);
+  });
+});
+
+describe('getRequiredKeys', () => {
+  it('returns the required properties of zod schemas', () => {
+    const schema = z.object({
+      email: z.string(),
+      createdAt: z.date(),
+      nickname: z.string().optional(),
+    });
+
+    expect(getRequiredKeys(schema)).toEqual(['email', 'createdAt']);
+  });
+
+  it('returns nothing for validators unable to describe themselves', () => {
+    expect(getRequiredKeys(() => true)).toEqual([]);
+    expect(getRequiredKeys({ safeParse: () => ({ success: true }) })).toEqual(
+      []
+    );
+  });
+});
+
+describe('FactoryValidationError', () => {
+  it('names the factory, the traits and the offending paths', () => {
+    const error = new FactoryValidationError({
+      factoryName: 'user',
+      traits: ['admin', 'verified'],
+      issues: [
+        { path: 'email', message: 'Invalid email' },
+        { path: '', message: 'Inconsistent' },
+      ],
+    });
+
+    expect(error.name).toBe('FactoryValidationError');
+    expect(error.message).toBe(
+      "Factory 'user' built an invalid object with traits admin, verified:\n  - email: Invalid email\n  - (root): Inconsistent"
+    );
+  });
+});
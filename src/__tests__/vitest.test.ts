@@ -0,0 +1,39 @@
+import { sequence } from '@/sequence';
+import { configureFactoryKit } from '@/vitest';
+import { faker } from '@faker-js/faker';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// Tests run in order: each one checks that the previous one left no trace
+describe('vitest setup', () => {
+  const id = sequence((n) => n, { id: 'vitest-setup' });
+
+  it('starts with fresh counters', () => {
+    expect(id()).toBe(1);
+    expect(id()).toBe(2);
+  });
+
+  it('restores counters changed by previous tests', () => {
+    expect(id()).toBe(1);
+  });
+});
+
+describe('vitest setup seeded from test names', () => {
+  const names: string[] = [];
+
+  beforeAll(() => {
+    configureFactoryKit({ seedFromTestName: true });
+  });
+
+  afterAll(() => {
+    configureFactoryKit({ seedFromTestName: false });
+  });
+
+  it('generates data', () => {
+    names.push(faker.name.firstName());
+  });
+
+  it('generates data', () => {
+    names.push(faker.name.firstName());
+    expect(names[1]).toBe(names[0]);
+  });
+});
@@ -0,0 +1,63 @@
+import type { MemoryAdapter, PersistenceAdapter } from '@/types';
+
+/**
+ * Adapter used by factories that don't define their own
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let defaultAdapter: PersistenceAdapter<any, any> | undefined;
+
+/**
+ * Sets the persistence adapter used by every factory that doesn't define its own
+ *
+ * @param adapter The adapter to use, or undefined to remove the current one
+ */
+export function setDefaultAdapter(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  adapter: PersistenceAdapter<any, any> | undefined
+): void {
+  defaultAdapter = adapter;
+}
+
+/**
+ * Returns the persistence adapter used by factories that don't define their own
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function getDefaultAdapter(): PersistenceAdapter<any, any> | undefined {
+  return defaultAdapter;
+}
+
+/**
+ * Creates an adapter that keeps saved records in memory, so factories can
+ * `create()` objects in tests without a database
+ *
+ * @returns A new in-memory adapter
+ */
+export function createMemoryAdapter<T>(): MemoryAdapter<T> {
+  const records: T[] = [];
+
+  return {
+    records,
+
+    save: (instance) => {
+      records.push(instance);
+      return Promise.resolve(instance);
+    },
+
+    saveMany: (instances) => {
+      records.push(...instances);
+      return Promise.resolve(instances);
+    },
+
+    destroy: (record) => {
+      const index = records.indexOf(record);
+      if (index !== -1) records.splice(index, 1);
+      return Promise.resolve();
+    },
+
+    clear: () => {
+      records.length = 0;
+    },
+  };
+}
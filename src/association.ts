@@ -0,0 +1,178 @@
+import { factories } from '@/registry';
+import type { AssociationOptions, Factory, OverridesFor } from '@/types';
+
+/**
+ * Key under which association attribute functions carry their definition
+ */
+const associationKey = Symbol('association');
+
+/**
+ * What the factory building the parent needs to know to build associated objects
+ *
+ * @internal
+ */
+export type AssociationDefinition = {
+  // Number of objects to build, for lists
+  count?: number;
+  inverse?: string;
+  // Builds a single associated object, with the given overrides on top of the association's own
+  build: (overrides: Record<string, unknown>) => unknown;
+};
+
+// Wraps a definition in an attribute function, usable on its own outside of a factory build
+function toAttributeFunction<TValue>(
+  definition: AssociationDefinition,
+  attributeFunction: () => TValue
+): () => TValue {
+  return Object.assign(attributeFunction, { [associationKey]: definition });
+}
+
+// Builds the definition shared by single associations and lists.
+// Factories given by name are looked up when building, once every module had a chance to register its own.
+function defineAssociation<
+  TChild,
+  TTraits extends string,
+  TTransient extends object,
+  TResult,
+  TTraitArgs extends object,
+>(
+  factory: Factory<TChild, TTraits, TTransient, TResult, TTraitArgs> | string,
+  {
+    traits,
+    overrides,
+    inverse,
+  }: AssociationOptions<TChild, TTraits, TTraitArgs>,
+  count?: number
+): AssociationDefinition {
+  const resolveFactory = () =>
+    typeof factory === 'string'
+      ? factories.get<TChild, TTraits, TTransient, TResult, TTraitArgs>(factory)
+      : factory;
+
+  return {
+    count,
+    inverse,
+    build: (forwardedOverrides) =>
+      resolveFactory().build({
+        traits,
+        overrides: { ...overrides, ...forwardedOverrides } as OverridesFor<
+          TChild & TTransient
+        >,
+      }),
+  };
+}
+
+/**
+ * Declares an attribute built by another factory.
+ *
+ * When used in a factory definition, nested overrides of the attribute (`profile__bio`)
+ * are forwarded to the associated factory instead of patching the built object.
+ *
+ * @param factory The factory building the associated object
+ * @param options Traits and overrides to build it with, and the attribute pointing back at the parent
+ * @returns Attribute function building the associated object
+ */
+export function association<
+  TChild,
+  TTraits extends string,
+  TTransient extends object,
+  TResult,
+  TTraitArgs extends object,
+>(
+  factory: Factory<TChild, TTraits, TTransient, TResult, TTraitArgs>,
+  options?: AssociationOptions<TChild, TTraits, TTraitArgs>
+): () => TChild;
+/**
+ * Declares an attribute built by a registered factory, looked up by name when
+ * building so that factories can refer to each other without importing each other.
+ *
+ * @template TChild The type of the associated object
+ * @param name The name the factory is registered under
+ * @param options Traits and overrides to build it with, and the attribute pointing back at the parent
+ * @returns Attribute function building the associated object
+ */
+export function association<TChild, TTraits extends string = string>(
+  name: string,
+  options?: AssociationOptions<TChild, TTraits>
+): () => TChild;
+export function association<
+  TChild,
+  TTraits extends string,
+  TTransient extends object,
+  TResult,
+  TTraitArgs extends object,
+>(
+  factory: Factory<TChild, TTraits, TTransient, TResult, TTraitArgs> | string,
+  options: AssociationOptions<TChild, TTraits, TTraitArgs> = {}
+): () => TChild {
+  const definition = defineAssociation(factory, options);
+  return toAttributeFunction(definition, () => definition.build({}) as TChild);
+}
+
+/**
+ * Declares an attribute holding a list of objects built by another factory.
+ *
+ * When used in a factory definition, nested overrides of the attribute are forwarded
+ * to the associated factory: `comments__0__body` to the first object only, and
+ * `comments__body` to every object.
+ *
+ * @param factory The factory building the associated objects
+ * @param count The number of objects to build
+ * @param options Traits and overrides to build them with, and the attribute pointing back at the parent
+ * @returns Attribute function building the list
+ */
+export function list<
+  TChild,
+  TTraits extends string,
+  TTransient extends object,
+  TResult,
+  TTraitArgs extends object,
+>(
+  factory: Factory<TChild, TTraits, TTransient, TResult, TTraitArgs>,
+  count: number,
+  options?: AssociationOptions<TChild, TTraits, TTraitArgs>
+): () => TChild[];
+/**
+ * Declares an attribute holding a list of objects built by a registered factory,
+ * looked up by name when building.
+ *
+ * @template TChild The type of the associated objects
+ * @param name The name the factory is registered under
+ * @param count The number of objects to build
+ * @param options Traits and overrides to build them with, and the attribute pointing back at the parent
+ * @returns Attribute function building the list
+ */
+export function list<TChild, TTraits extends string = string>(
+  name: string,
+  count: number,
+  options?: AssociationOptions<TChild, TTraits>
+): () => TChild[];
+export function list<
+  TChild,
+  TTraits extends string,
+  TTransient extends object,
+  TResult,
+  TTraitArgs extends object,
+>(
+  factory: Factory<TChild, TTraits, TTransient, TResult, TTraitArgs> | string,
+  count: number,
+  options: AssociationOptions<TChild, TTraits, TTraitArgs> = {}
+): () => TChild[] {
+  const definition = defineAssociation(factory, options, count);
+  return toAttributeFunction(definition, () =>
+    Array.from({ length: count }, () => definition.build({}) as TChild)
+  );
+}
+
+/**
+ * Returns the association definition carried by an attribute definition, if any
+ *
+ * @internal
+ */
+export function getAssociation(
+  value: unknown
+): AssociationDefinition | undefined {
+  return typeof value === 'function' && associationKey in value
+    ? (value as { [associationKey]: AssociationDefinition })[associationKey]
+    : undefined;
+}
@@ -0,0 +1,122 @@
+/**
+ * Objects marked with `shared()`, kept by reference when building
+ */
+const sharedValues = new WeakSet<object>();
+
+/**
+ * Marks a static default as shared: every built object gets this very value,
+ * instead of a copy of it.
+ *
+ * @param value The object to share between built objects
+ * @returns The same object
+ */
+export function shared<T extends object>(value: T): T {
+  sharedValues.add(value);
+  return value;
+}
+
+/**
+ * Copies a value deeply, so that changing the copy leaves the value untouched.
+ * Plain objects, arrays, dates, regular expressions, maps, sets and typed arrays are
+ * copied. Class instances are kept by reference, since a copy would lose their private
+ * fields. Functions and values marked with `shared()` are kept by reference as well.
+ *
+ * @param value The value to copy
+ * @param copies Copies of the objects already met, to handle circular references
+ * @returns The copy
+ * @internal
+ */
+export function cloneValue<T>(value: T, copies?: WeakMap<object, unknown>): T {
+  if (typeof value !== 'object' || value === null || sharedValues.has(value)) {
+    return value;
+  }
+
+  copies ??= new WeakMap();
+  const existingCopy = copies.get(value);
+  if (existingCopy !== undefined) return existingCopy as T;
+
+  const remember = <TCopy>(copy: TCopy): TCopy => {
+    copies.set(value, copy);
+    return copy;
+  };
+
+  if (value instanceof Date) return remember(new Date(value.getTime())) as T;
+  if (value instanceof RegExp) {
+    return remember(new RegExp(value.source, value.flags)) as T;
+  }
+
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    return remember((value as unknown as Uint8Array).slice()) as T;
+  }
+
+  if (value instanceof Map) {
+    const copy = remember(new Map());
+    for (const [key, entry] of value) {
+      copy.set(cloneValue(key, copies), cloneValue(entry, copies));
+    }
+
+    return copy as T;
+  }
+
+  if (value instanceof Set) {
+    const copy = remember(new Set());
+    for (const entry of value) copy.add(cloneValue(entry, copies));
+    return copy as T;
+  }
+
+  if (Array.isArray(value)) {
+    const copy = remember([] as unknown[]);
+    for (const item of value) copy.push(cloneValue(item, copies));
+    return copy as T;
+  }
+
+  const prototype = Object.getPrototypeOf(value) as object | null;
+  if (prototype !== Object.prototype && prototype !== null) return value;
+
+  const copy = remember(
+    Object.create(prototype) as Record<PropertyKey, unknown>
+  );
+  for (const key of Reflect.ownKeys(value)) {
+    const descriptor = Object.getOwnPropertyDescriptor(value, key);
+    if (!descriptor) continue;
+
+    if ('value' in descriptor) {
+      descriptor.value = cloneValue(descriptor.value, copies);
+    }
+
+    Object.defineProperty(copy, key, descriptor);
+  }
+
+  return copy as T;
+}
+
+/**
+ * Copies the outer level of a value, so that its properties can be set without changing it.
+ * Class instances are copied with their prototype and own properties, which leaves their
+ * private fields behind. Values marked with `shared()` are kept by reference.
+ *
+ * @param value The value to copy
+ * @returns The copy
+ * @internal
+ */
+export function copyShallow<T>(value: T): T {
+  if (typeof value !== 'object' || value === null || sharedValues.has(value)) {
+    return value;
+  }
+
+  if (Array.isArray(value)) return [...value] as T;
+  if (
+    value instanceof Date ||
+    value instanceof RegExp ||
+    value instanceof Map ||
+    value instanceof Set ||
+    ArrayBuffer.isView(value)
+  ) {
+    return cloneValue(value);
+  }
+
+  return Object.defineProperties(
+    Object.create(Object.getPrototypeOf(value) as object | null),
+    Object.getOwnPropertyDescriptors(value)
+  ) as T;
+}
@@ -0,0 +1,96 @@
+/**
+ * Scopes of the factories currently building objects, innermost last
+ */
+const activeScopes: string[] = [];
+
+/**
+ * Counter used to generate the ids of factory scopes
+ */
+let scopeCounter = 0;
+
+/**
+ * Creates the id of a new factory scope, owning the sequences and unique values
+ * used while the factory builds objects
+ *
+ * @returns A new scope id
+ * @internal
+ */
+export function createScopeId(): string {
+  // Ids are deterministic so that seeded runs stay reproducible
+  return `factory_${++scopeCounter}`;
+}
+
+/**
+ * Runs a function with the given factory scope active, restoring the previous
+ * scope afterwards so that nested builds get their own
+ *
+ * @param scopeId The scope of the factory building objects
+ * @param fn The function to run
+ * @returns The result of the function
+ * @internal
+ */
+export function runInScope<T>(scopeId: string, fn: () => T): T {
+  activeScopes.push(scopeId);
+  try {
+    return fn();
+  } finally {
+    activeScopes.pop();
+  }
+}
+
+/**
+ * Returns the scope of the factory currently building an object, if any
+ *
+ * @internal
+ */
+export function getActiveScope(): string | undefined {
+  return activeScopes[activeScopes.length - 1];
+}
+
+/**
+ * Functions releasing the values claimed by the attempts being recorded, innermost last
+ */
+const claimJournals: Array<Array<() => void>> = [];
+
+/**
+ * Records how to release a value claimed while building, such as a unique value
+ * or a sequence number, in case the attempt claiming it is discarded
+ *
+ * @param release Releases the value
+ * @internal
+ */
+export function recordClaim(release: () => void): void {
+  claimJournals[claimJournals.length - 1]?.push(release);
+}
+
+/**
+ * Runs an attempt at building something, recording the values it claims
+ *
+ * @param attempt The attempt to run
+ * @returns The result of the attempt, and a function releasing the values it claimed
+ * @internal
+ */
+export function recordClaims<T>(attempt: () => T): {
+  result: T;
+  release: () => void;
+} {
+  const releases: Array<() => void> = [];
+  claimJournals.push(releases);
+  let result: T;
+  try {
+    result = attempt();
+  } finally {
+    claimJournals.pop();
+  }
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    for (const releaseClaim of releases.reverse()) releaseClaim();
+  };
+
+  // The values also belong to the attempt this one is nested in, which may be discarded too
+  recordClaim(release);
+  return { result, release };
+}
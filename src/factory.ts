@@ -1,129 +1,1042 @@
-import type { AttributesFor, BuildOptions, Factory } from '@/types';
-import { faker } from '@faker-js/faker';
+import { getDefaultAdapter } from '@/adapter';
+import { getAssociation, type AssociationDefinition } from '@/association';
+import { cloneValue, copyShallow } from '@/clone';
+import { createScopeId, recordClaims, runInScope } from '@/context';
+import { getFactoryName } from '@/registry';
+import { resolveAttributes } from '@/resolver';
+import { createLocaleFaker, createSeededFaker, toSeedNumber } from '@/seed';
+import { resetScopedSequences } from '@/sequence';
+import type {
+  AttributesFor,
+  BuildHook,
+  BuildManyOptions,
+  BuildOptions,
+  CompositeUniqueOptions,
+  CreateHook,
+  CreateStreamOptions,
+  ExtendedResult,
+  Factory,
+  FactoryConstructor,
+  FactoryOptions,
+  FakerInstance,
+  Initializer,
+  NoTransient,
+  PersistenceAdapter,
+  TraitAttributes,
+  TraitOptions,
+  TraitSelection,
+  TransientAttributesFor,
+  Validator,
+} from '@/types';
+import {
+  claimUniqueKey,
+  clearUniqueStore,
+  DEFAULT_MAX_RETRIES,
+  getUniqueStore,
+  toUniqueKey,
+  UniqueExhaustedError,
+  type UniqueStore,
+} from '@/unique';
+import {
+  FactoryValidationError,
+  getRequiredKeys,
+  validateInstance,
+} from '@/validation';
+import { faker, type Faker } from '@faker-js/faker';
+
+// Number of objects built and persisted together by createStream()
+const DEFAULT_BATCH_SIZE = 100;
+
+// Number of override paths a factory remembers, so that generated keys can't fill the memory
+const MAX_CACHED_OVERRIDE_PATHS = 1000;
+
+// A trait's attributes along with the traits it includes and the hooks run when it is applied
+type TraitDefinition<T, TTransient extends object, TResult> = {
+  attributes: TraitAttributes<T & TTransient>;
+  options: TraitOptions<T, TTransient, TResult>;
+};
+
+// Fields whose combination of values must be unique
+type UniqueConstraint = {
+  fields: string[];
+  options: CompositeUniqueOptions;
+};
+
+// Everything a factory knows about how to build objects, shared with the factories extending it
+type FactoryState<T, TTransient extends object, TResult> = {
+  attributes: AttributesFor<T & TTransient>;
+  transientAttributes: AttributesFor<T & TTransient>;
+  traits: Record<string, TraitDefinition<T, TTransient, TResult>>;
+  beforeBuildHooks: Array<BuildHook<T, TTransient>>;
+  afterBuildHooks: Array<BuildHook<T, TTransient>>;
+  afterCreateHooks: Array<CreateHook<T, TTransient, TResult>>;
+  uniqueConstraints: UniqueConstraint[];
+  validators: Array<Validator<T>>;
+  // Whether required attributes and attributes set by overrides must be defined by the factory
+  strict: boolean;
+  // Attributes required by the validators, checked in strict mode
+  requiredKeys: string[];
+  // Owner of the sequences and unique values used by the factory
+  scopeId: string;
+  adapter?: PersistenceAdapter<T, TResult>;
+  seed?: number | string;
+  // Instance handed to attribute functions, provided or locale-specific
+  faker?: FakerInstance;
+  // Stream of seeded factories, based on the instance above
+  seededFaker?: Faker;
+  // Options every build starts from, set by with()
+  defaultOptions?: BuildOptions<T, string, TTransient>;
+  // Builds the final object from the resolved attributes
+  initializer?: Initializer<T>;
+};
+
+// What building with a given selection of traits needs, compiled once per selection
+type BuildPlan<T, TTransient extends object, TResult> = {
+  // Attribute definitions once the traits are applied, shared by every build
+  definitions: Record<string, unknown>;
+  staticKeys: string[];
+  associationKeys: string[];
+  appliedTraits: Array<TraitDefinition<T, TTransient, TResult>>;
+  // Factory hooks first, then the hooks of each applied trait in order
+  beforeBuildHooks: Array<BuildHook<T, TTransient>>;
+  afterBuildHooks: Array<BuildHook<T, TTransient>>;
+};
+
+// An override along with the path of the property it replaces
+type Override = {
+  path: string[];
+  value: unknown;
+};
+
+// A built instance along with what persisting it needs to know about its build
+type BuiltObject<T, TTransient extends object, TResult> = {
+  instance: T;
+  options: BuildOptions<T, string, TTransient>;
+  transient: TTransient;
+  appliedTraits: Array<TraitDefinition<T, TTransient, TResult>>;
+};
+
+// Merges per-item build options on top of shared ones: traits are appended, overrides and transient values replaced
+// Overrides are flattened first, so that plain objects are merged like nested overrides
+function mergeBuildOptions<
+  T,
+  TTraits extends string,
+  TTransient extends object,
+  TTraitArgs extends object,
+>(
+  shared: BuildOptions<T, TTraits, TTransient, TTraitArgs>,
+  item: BuildOptions<T, TTraits, TTransient, TTraitArgs>
+): BuildOptions<T, TTraits, TTransient, TTraitArgs> {
+  return {
+    traits: [...(shared.traits ?? []), ...(item.traits ?? [])],
+    overrides: mergeOverrides(shared.overrides ?? {}, item.overrides ?? {}),
+    transient: { ...shared.transient, ...item.transient },
+  } as BuildOptions<T, TTraits, TTransient, TTraitArgs>;
+}
+
+// Merges overrides on top of shared ones, in their flattened form. Shared overrides nested
+// in a key the other overrides replace as a whole are dropped.
+function mergeOverrides(
+  shared: Record<string, unknown>,
+  overrides: Record<string, unknown>
+): Record<string, unknown> {
+  const entries = flattenOverrides(overrides);
+  const keys = entries.map(([key]) => key);
+  return Object.fromEntries([
+    ...flattenOverrides(shared).filter(
+      ([sharedKey]) =>
+        !keys.some(
+          (key) => sharedKey === key || sharedKey.startsWith(`${key}__`)
+        )
+    ),
+    ...entries,
+  ]);
+}
+
+// Associated objects along with the attribute pointing back at their parent
+type InverseAssociation = {
+  inverse: string;
+  objects: unknown[];
+};
+
+// Turns overrides back into override keys (body, author__name)
+function toOverrideKeys(overrides: Override[]): Record<string, unknown> {
+  return Object.fromEntries(
+    overrides.map(({ path, value }) => [path.join('__'), value])
+  );
+}
+
+// Builds the value of an association attribute, forwarding the nested overrides of the
+// attribute to the associated factory. List items get the overrides without an index,
+// and the ones starting with their own index.
+function buildAssociation(
+  association: AssociationDefinition,
+  overrides: Override[]
+): unknown {
+  // The inverse attribute is set once the parent is built, so the associated factory must not build it
+  const inverseOverride = association.inverse
+    ? { [association.inverse]: undefined }
+    : {};
+
+  if (association.count === undefined) {
+    return association.build({
+      ...inverseOverride,
+      ...toOverrideKeys(overrides),
+    });
+  }
+
+  const sharedOverrides = overrides.filter(({ path }) => !isIndex(path[0]));
+  return Array.from({ length: association.count }, (_, index) =>
+    association.build({
+      ...inverseOverride,
+      ...toOverrideKeys(sharedOverrides),
+      ...toOverrideKeys(
+        overrides
+          .filter(({ path }) => path[0] === String(index))
+          .map(({ path, value }) => ({ path: path.slice(1), value }))
+      ),
+    })
+  );
+}
+
+// Whether a path segment is an array index
+function isIndex(key: string): boolean {
+  return /^\d+$/.test(key);
+}
+
+// Whether a value is a plain object, as opposed to arrays, dates or class instances
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// Flattens plain object overrides into nested ones ({ profile: { bio } } into profile__bio),
+// so that they are merged into the built values rather than replacing them. Empty objects
+// have nothing to merge, and replace the built value instead.
+function flattenOverrides(
+  overrides: Record<string, unknown>,
+  prefix = ''
+): Array<[string, unknown]> {
+  return Object.entries(overrides).flatMap(
+    ([key, value]): Array<[string, unknown]> =>
+      isPlainObject(value) && Object.keys(value).length > 0
+        ? flattenOverrides(value, `${prefix}${key}__`)
+        : [[`${prefix}${key}`, value]]
+  );
+}
+
+// Whether a property exists on an object, or its prototypes, and holds a writable value
+function isWritableProperty(target: object | null, key: string): boolean {
+  for (let object = target; object; object = Object.getPrototypeOf(object)) {
+    const descriptor = Object.getOwnPropertyDescriptor(object, key);
+    if (descriptor) return descriptor.writable === true;
+  }
+
+  return false;
+}
+
+// Sets a value at the given path, creating missing intermediate objects and arrays.
+// Segments other than indexes apply to every item of the arrays they reach. When only
+// existing properties are set, such as on objects built by an initializer, missing
+// properties, getters and read-only properties are left alone.
+function setPath(
+  target: unknown,
+  path: string[],
+  value: unknown,
+  existingOnly = false
+): void {
+  const [key, ...nestedPath] = path;
+  if (Array.isArray(target) && !isIndex(key)) {
+    for (const item of target) setPath(item, path, value, existingOnly);
+    return;
+  }
+
+  const current = target as Record<string, unknown>;
+  if (nestedPath.length === 0) {
+    // Leave values that are already set alone, they may be read-only on class instances
+    if (current[key] === value) return;
+    if (!existingOnly || isWritableProperty(current, key)) current[key] = value;
+    return;
+  }
+
+  if (!current[key]) {
+    if (existingOnly) return;
+    current[key] = isIndex(nestedPath[0]) ? [] : {};
+  }
+
+  setPath(current[key], nestedPath, value, existingOnly);
+}
+
+// Copies the objects a path goes through, so that setting the property at its end leaves
+// the value untouched. Static values keep class instances by reference, so they are copied
+// before nested overrides reach into them.
+function copyPath(target: unknown, path: string[]): unknown {
+  if (typeof target !== 'object' || target === null || path.length === 0) {
+    return target;
+  }
+
+  const [key, ...nestedPath] = path;
+  if (Array.isArray(target) && !isIndex(key)) {
+    return target.map((item) => copyPath(item, path));
+  }
+
+  const copy = copyShallow(target) as Record<string, unknown>;
+  if (nestedPath.length > 0 && copy !== target) {
+    const nested = copyPath(copy[key], nestedPath);
+    if (nested !== copy[key]) copy[key] = nested;
+  }
+
+  return copy;
+}
 
 /**
  * Creates a factory for generating objects of type T.
  *
  * @template T The type of objects this factory will create
+ * @param options Optional faker instance handed to attribute functions, and initializer building the final objects
  * @returns A new factory instance
  */
-export function createFactory<T>(): Factory<T> {
-  const attributes: AttributesFor<T> = {} as AttributesFor<T>;
-  const traits: Record<string, AttributesFor<T>> = {};
-
-  // Process nested overrides with double underscore notation (profile__name, profile__settings__theme)
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const applyNestedOverrides = (obj: any, key: string, value: any): void => {
-    if (key.includes('__')) {
-      // Split the key by double underscores
-      const parts = key.split('__');
-
-      // The first part is the top-level property
-      const topLevelKey = parts[0];
-
-      // Ensure the top-level object exists
-      if (!obj[topLevelKey]) obj[topLevelKey] = {};
-
-      let currentObj = obj[topLevelKey];
-
-      // Process all nested paths except the last one
-      for (let i = 1; i < parts.length - 1; i++) {
-        const nestedKey = parts[i];
-        if (!currentObj[nestedKey]) currentObj[nestedKey] = {};
-        currentObj = currentObj[nestedKey];
+export function createFactory<T>(
+  options?: FactoryOptions<T>
+): Factory<T, never>;
+/**
+ * Creates a factory for generating instances of a class, passing the resolved
+ * attributes to its constructor.
+ *
+ * @template T The type of objects this factory will create
+ * @param constructor The class of the objects, whose constructor takes their attributes
+ * @param options Optional faker instance handed to attribute functions
+ * @returns A new factory instance
+ */
+export function createFactory<T>(
+  constructor: FactoryConstructor<T>,
+  options?: Omit<FactoryOptions<T>, 'initializer'>
+): Factory<T, never>;
+export function createFactory<T>(
+  target: FactoryConstructor<T> | FactoryOptions<T> = {},
+  options: FactoryOptions<T> = {}
+): Factory<T, never> {
+  if (typeof target === 'function') {
+    return createFactory<T>({
+      ...options,
+      initializer: toInitializer(target),
+    });
+  }
+
+  return createFactoryFromState<T, never, NoTransient, T>({
+    attributes: {} as AttributesFor<T & NoTransient>,
+    transientAttributes: {} as AttributesFor<T & NoTransient>,
+    traits: {},
+    beforeBuildHooks: [],
+    afterBuildHooks: [],
+    afterCreateHooks: [],
+    uniqueConstraints: [],
+    validators: [],
+    strict: false,
+    requiredKeys: [],
+    scopeId: createScopeId(),
+    faker: target.faker,
+    initializer: target.initializer,
+  });
+}
+
+// Returns the initializer of the given constructor or initializer options
+function toInitializer<T>(
+  target: FactoryConstructor<T> | Pick<FactoryOptions<T>, 'initializer'>
+): Initializer<T> | undefined {
+  if (typeof target === 'function') {
+    return (attributes) => new target(attributes as never);
+  }
+
+  return target.initializer;
+}
+
+// Creates a factory around the given state, which is never mutated: configuring the factory creates a new one
+function createFactoryFromState<
+  T,
+  TTraits extends string,
+  TTransient extends object,
+  TResult,
+  TTraitArgs extends object = Record<TTraits, []>,
+>(
+  state: FactoryState<T, TTransient, TResult>
+): Factory<T, TTraits, TTransient, TResult, TTraitArgs> {
+  const {
+    attributes,
+    transientAttributes,
+    traits,
+    beforeBuildHooks,
+    afterBuildHooks,
+    afterCreateHooks,
+    uniqueConstraints,
+    validators,
+  } = state;
+
+  // The state never changes, so what builds need is computed once and kept for the next builds
+  const transientKeys = Object.keys(transientAttributes);
+  const buildPlans = new Map<string, BuildPlan<T, TTransient, TResult>>();
+  const overridePaths = new Map<string, string[]>();
+
+  // Runs hooks in order, each one receiving the instance returned by the previous one
+  const runHooks = (
+    hooks: Array<BuildHook<T, TTransient>>,
+    instance: T,
+    options: BuildOptions<T, TTraits, TTransient, TTraitArgs>,
+    transient: TTransient
+  ): T => {
+    let current = instance;
+    for (const hook of hooks) {
+      const result = hook(current, options, transient);
+      if (result !== undefined) current = result;
+    }
+
+    return current;
+  };
+
+  // Same as runHooks, for hooks run once records are persisted
+  const runCreateHooks = async (
+    hooks: Array<CreateHook<T, TTransient, TResult>>,
+    record: TResult,
+    options: BuildOptions<T, string, TTransient>,
+    transient: TTransient
+  ): Promise<TResult> => {
+    let current = record;
+    for (const hook of hooks) {
+      const result = await hook(current, options, transient);
+      if (result !== undefined) current = result;
+    }
+
+    return current;
+  };
+
+  // Claims the combinations of values of the instance for every uniqueness constraint,
+  // returning the first constraint they break without claiming anything in that case
+  const claimUniqueCombinations = (
+    instance: Record<string, unknown>
+  ): { constraint: UniqueConstraint; store: UniqueStore } | undefined => {
+    const claims = uniqueConstraints.map((constraint) => ({
+      constraint,
+      store: getUniqueStore(
+        constraint.fields.join('+'),
+        constraint.options.factoryId ?? state.scopeId
+      ),
+      key: toUniqueKey(
+        constraint.fields.map((field) => instance[field]),
+        { deep: true }
+      ),
+    }));
+
+    const conflict = claims.find(({ store, key }) => store.values.has(key));
+    if (conflict) {
+      conflict.store.attempts++;
+      conflict.store.collisions++;
+      return conflict;
+    }
+
+    for (const { store, key } of claims) claimUniqueKey(store, key);
+    return undefined;
+  };
+
+  // Applies the selected traits in order, each one after the traits it includes, so
+  // that its own attributes win over theirs. Included traits already applied are skipped.
+  const applyTraits = (
+    selections: TraitSelection[],
+    definitions: Record<string, unknown>,
+    appliedTraits: Array<TraitDefinition<T, TTransient, TResult>>,
+    including: string[] = []
+  ): void => {
+    for (const selection of selections) {
+      const [name, ...args] =
+        typeof selection === 'string' ? [selection] : selection;
+
+      const cycleStart = including.indexOf(name);
+      if (cycleStart !== -1) {
+        const cycle = [...including.slice(cycleStart), name].join(' -> ');
+        throw new Error(`Circular trait inclusion: ${cycle}`);
       }
 
-      // Set the value on the deepest property
-      const lastKey = parts[parts.length - 1];
-      currentObj[lastKey] = typeof value === 'function' ? value() : value;
-    } else {
-      // Direct property (no nesting)
-      obj[key] = typeof value === 'function' ? value() : value;
+      if (!Object.hasOwn(traits, name)) {
+        const available = Object.keys(traits).join(', ') || 'none';
+        throw new Error(
+          `Unknown trait '${name}'. Available traits: ${available}`
+        );
+      }
+
+      const trait = traits[name];
+      if (including.length > 0 && appliedTraits.includes(trait)) continue;
+
+      applyTraits(trait.options.include ?? [], definitions, appliedTraits, [
+        ...including,
+        name,
+      ]);
+      appliedTraits.push(trait);
+      Object.assign(
+        definitions,
+        typeof trait.attributes === 'function'
+          ? trait.attributes(...(args as never[]))
+          : trait.attributes
+      );
     }
   };
 
-  // Helper to detect if a function is a direct faker call vs an attribute function
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const isFakerDirectCall = (fn: any): boolean => {
-    return fn.length === 0; // Attribute functions take 2 parameters (instance, faker)
+  // Compiles what building with the selected traits needs: the definitions of the attributes
+  // once the traits are applied, which of them are static or associations, and the hooks to run
+  const compileBuildPlan = (
+    selections: TraitSelection[]
+  ): BuildPlan<T, TTransient, TResult> => {
+    // Transient attributes are resolved alongside regular ones, so attribute functions can use them,
+    // and each applied trait redefines the attributes it declares
+    const appliedTraits: Array<TraitDefinition<T, TTransient, TResult>> = [];
+    const definitions: Record<string, unknown> = {
+      ...transientAttributes,
+      ...attributes,
+    };
+    applyTraits(selections, definitions, appliedTraits);
+
+    const keys = Object.keys(definitions);
+    return {
+      definitions,
+      staticKeys: keys.filter((key) => typeof definitions[key] !== 'function'),
+      associationKeys: keys.filter((key) => getAssociation(definitions[key])),
+      appliedTraits,
+      beforeBuildHooks: [
+        ...beforeBuildHooks,
+        ...appliedTraits.flatMap((trait) => trait.options.beforeBuild ?? []),
+      ],
+      afterBuildHooks: [
+        ...afterBuildHooks,
+        ...appliedTraits.flatMap((trait) => trait.options.afterBuild ?? []),
+      ],
+    };
   };
 
-  // Builds a single instance of T
-  const buildInstance = (options: BuildOptions<T> = {}): T => {
-    const instance = {} as T;
-    const attributeKeys = Object.keys(attributes);
+  // Returns the plan of the selected traits, compiled on first use. Traits defined with a
+  // function are applied on every build, since they may return different attributes each time.
+  const getBuildPlan = (
+    selections: TraitSelection[]
+  ): BuildPlan<T, TTransient, TResult> => {
+    if (!selections.every((selection) => typeof selection === 'string')) {
+      return compileBuildPlan(selections);
+    }
+
+    const key = JSON.stringify(selections);
+    let plan = buildPlans.get(key);
+    if (!plan) {
+      plan = compileBuildPlan(selections);
+      if (
+        plan.appliedTraits.every(
+          (trait) => typeof trait.attributes !== 'function'
+        )
+      ) {
+        buildPlans.set(key, plan);
+      }
+    }
+
+    return plan;
+  };
+
+  // Splits an override key into its path, remembering the paths of the first keys met
+  const toOverridePath = (key: string): string[] => {
+    let path = overridePaths.get(key);
+    if (!path) {
+      path = key.split('__');
+      if (overridePaths.size < MAX_CACHED_OVERRIDE_PATHS) {
+        overridePaths.set(key, path);
+      }
+    }
+
+    return path;
+  };
+
+  // Builds a single instance of T, along with the transient values and traits used
+  const buildObjectInScope = (
+    options: BuildOptions<T, TTraits, TTransient, TTraitArgs>
+  ): BuiltObject<T, TTransient, TResult> => {
+    // Seeded factories hand their own faker stream to attribute functions
+    const buildFaker =
+      state.seededFaker ?? (state.faker as Faker | undefined) ?? faker;
+    const plan = getBuildPlan(options.traits ?? []);
+    const { appliedTraits } = plan;
+
+    // Static defaults are copied, so that built objects don't share them
+    const definitions: Record<string, unknown> = { ...plan.definitions };
+    for (const key of plan.staticKeys) {
+      definitions[key] = cloneValue(definitions[key]);
+    }
 
-    // First pass: Apply all static values and direct faker calls
-    for (const key of attributeKeys) {
-      const value = attributes[key as keyof T];
+    // Overrides are applied while resolving, so that dependent attributes see them.
+    // Top-level overrides replace the definition of their attribute, while nested
+    // ones (profile__name, profile__settings__theme) are applied to their top-level
+    // attribute as soon as it is resolved, or forwarded to the associated factory
+    // when the attribute is an association. Plain objects are flattened into nested
+    // overrides, so they are merged into the built value. Top-level overrides are
+    // handled first, since they can replace an association.
+    const overrides: Override[] = [];
+    const nestedOverrides = new Map<string, Override[]>();
+    const associationOverrides = new Map<string, Override[]>();
+    const overrideEntries = flattenOverrides(options.overrides ?? {}).sort(
+      ([a], [b]) => Number(a.includes('__')) - Number(b.includes('__'))
+    );
+    for (const [key, overrideValue] of overrideEntries) {
+      const path = toOverridePath(key);
+      // Override values are copied like static defaults, since variants and buildMany() reuse them
+      const value = cloneValue(overrideValue);
 
-      // Skip attribute functions that depend on other attributes
-      if (typeof value === 'function' && !isFakerDirectCall(value)) {
+      if (path.length === 1) {
+        overrides.push({ path, value });
+        definitions[key] = value;
         continue;
-      } else if (typeof value === 'function') {
-        // For direct faker function calls
-        instance[key as keyof T] = value() as T[keyof T];
-      } else {
-        // For static values
-        instance[key as keyof T] = value as T[keyof T];
       }
+
+      const [topLevelKey, ...nestedPath] = path;
+      if (getAssociation(definitions[topLevelKey])) {
+        associationOverrides.set(topLevelKey, [
+          ...(associationOverrides.get(topLevelKey) ?? []),
+          { path: nestedPath, value },
+        ]);
+        continue;
+      }
+
+      const override = { path, value };
+      overrides.push(override);
+      if (!Object.hasOwn(definitions, topLevelKey)) {
+        definitions[topLevelKey] = () => ({});
+      }
+
+      nestedOverrides.set(topLevelKey, [
+        ...(nestedOverrides.get(topLevelKey) ?? []),
+        override,
+      ]);
     }
 
-    // Second pass: Apply attribute functions that depend on other attributes
-    for (const key of attributeKeys) {
-      const value = attributes[key as keyof T];
+    // Nested overrides of static values must not change the objects shared between builds
+    for (const [key, keyOverrides] of nestedOverrides) {
+      if (typeof definitions[key] === 'function') continue;
 
-      if (typeof value === 'function' && !isFakerDirectCall(value)) {
-        // For attribute functions that require instance and faker
-        instance[key as keyof T] = value(instance, faker) as T[keyof T];
+      for (const { path } of keyOverrides) {
+        definitions[key] = copyPath(definitions[key], path.slice(1));
       }
     }
 
-    // Apply traits if specified
-    if (options.traits) {
-      for (const traitName of options.traits) {
-        const trait = traits[traitName];
-        if (trait) {
-          // First pass for traits: static values and direct faker calls
-          for (const [key, value] of Object.entries(trait)) {
-            if (typeof value === 'function' && !isFakerDirectCall(value)) {
-              continue;
-            } else if (typeof value === 'function') {
-              instance[key as keyof T] = value() as T[keyof T];
-            } else {
-              instance[key as keyof T] = value as T[keyof T];
-            }
-          }
+    // Associations are built by their own factory, keeping track of the objects
+    // that must point back at the parent
+    const inverseAssociations: InverseAssociation[] = [];
+    const associationKeys = [
+      ...plan.associationKeys,
+      ...overrides
+        .filter(({ path }) => path.length === 1)
+        .map(({ path }) => path[0]),
+    ];
+    for (const key of associationKeys) {
+      const association = getAssociation(definitions[key]);
+      if (!association) continue;
+
+      definitions[key] = () => {
+        const value = buildAssociation(
+          association,
+          associationOverrides.get(key) ?? []
+        );
+        if (association.inverse) {
+          inverseAssociations.push({
+            inverse: association.inverse,
+            objects:
+              association.count === undefined ? [value] : (value as unknown[]),
+          });
+        }
+
+        return value;
+      };
+    }
 
-          // Second pass for traits: attribute functions
-          for (const [key, value] of Object.entries(trait)) {
-            if (typeof value === 'function' && !isFakerDirectCall(value)) {
-              instance[key as keyof T] = value(instance, faker) as T[keyof T];
-            }
+    // Transient values provided when building replace their definitions
+    const resolveInstance = (): T => {
+      inverseAssociations.length = 0;
+      return resolveAttributes(
+        definitions,
+        { ...options.transient },
+        buildFaker,
+        (key, lazyInstance) => {
+          for (const override of nestedOverrides.get(key) ?? []) {
+            // Keep the resolved value, so the override can be applied again after the beforeBuild hooks
+            override.value =
+              typeof override.value === 'function'
+                ? override.value(lazyInstance, buildFaker)
+                : override.value;
+            setPath(lazyInstance, override.path, override.value);
           }
         }
+      ) as T;
+    };
+
+    // Resolve attributes again while they break a composite uniqueness constraint,
+    // handing the unique values and sequence numbers of discarded attempts out again
+    let attempt = recordClaims(resolveInstance);
+    let instance = attempt.result;
+    let attempts = 1;
+    for (
+      let conflict = claimUniqueCombinations(
+        instance as Record<string, unknown>
+      );
+      conflict;
+      conflict = claimUniqueCombinations(instance as Record<string, unknown>)
+    ) {
+      const { constraint, store } = conflict;
+      attempt.release();
+      if (attempts >= (constraint.options.maxRetries ?? DEFAULT_MAX_RETRIES)) {
+        throw new UniqueExhaustedError(
+          {
+            factoryId: constraint.options.factoryId ?? state.scopeId,
+            fieldName: constraint.fields.join('+'),
+            attempts,
+            storeSize: store.values.size,
+          },
+          `Could not generate unique combination for fields '${constraint.fields.join(', ')}' after ${attempts} attempts`
+        );
       }
+
+      attempt = recordClaims(resolveInstance);
+      instance = attempt.result;
+      attempts++;
     }
 
-    // Apply overrides if specified
-    if (options.overrides) {
-      for (const [key, value] of Object.entries(options.overrides)) {
-        applyNestedOverrides(instance, key, value);
+    // Keep the resolved value of top-level overrides, for the same reason
+    for (const override of overrides) {
+      if (override.path.length === 1) {
+        override.value = instance[override.path[0] as keyof T];
       }
     }
 
-    return instance;
+    // Strip transient values from the instance, they are only handed to hooks from now on
+    const transient = {} as TTransient;
+    for (const key of transientKeys) {
+      transient[key as keyof TTransient] = instance[
+        key as keyof T
+      ] as unknown as TTransient[keyof TTransient];
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete instance[key as keyof T];
+    }
+
+    // Build the final object from the resolved attributes, such as a class instance
+    if (state.initializer) instance = state.initializer(instance);
+
+    instance = runHooks(plan.beforeBuildHooks, instance, options, transient);
+
+    // Apply overrides again, so that they win over changes made by the beforeBuild hooks.
+    // Objects built by an initializer only get the properties they have, which may differ
+    // from the attributes handed to it.
+    for (const { path, value } of overrides) {
+      if (transientKeys.includes(path[0])) continue;
+      setPath(instance, path, value, state.initializer !== undefined);
+    }
+
+    instance = runHooks(plan.afterBuildHooks, instance, options, transient);
+
+    // Point associated objects back at the parent, now that it is built
+    for (const { inverse, objects } of inverseAssociations) {
+      for (const object of objects) {
+        (object as Record<string, unknown>)[inverse] = instance;
+      }
+    }
+
+    // In strict mode, required attributes and attributes only set by overrides
+    // are issues too when the factory doesn't define them
+    const undefinedKeys = state.strict
+      ? new Set(
+          [
+            ...state.requiredKeys,
+            ...overrideEntries.map(([key]) => toOverridePath(key)[0]),
+          ].filter((key) => !Object.hasOwn(plan.definitions, key))
+        )
+      : [];
+    const issues = [...undefinedKeys].map((key) => ({
+      path: key,
+      message: 'Not defined by the factory',
+    }));
+    for (const validator of validators) {
+      issues.push(...validateInstance(validator, instance));
+    }
+
+    if (issues.length > 0) {
+      throw new FactoryValidationError({
+        factoryName: getFactoryName(factory),
+        traits: (options.traits ?? []).map((selection) =>
+          typeof selection === 'string' ? selection : selection[0]
+        ),
+        issues,
+      });
+    }
+
+    return { instance, options, transient, appliedTraits };
+  };
+
+  // Builds objects within the factory's scope, so that the sequences and unique
+  // values used without an explicit id belong to this factory
+  const buildObject = (
+    options: BuildOptions<T, TTraits, TTransient, TTraitArgs> = {}
+  ): BuiltObject<T, TTransient, TResult> => {
+    // Options of variants created with with() come first
+    const buildOptions = state.defaultOptions
+      ? mergeBuildOptions(
+          state.defaultOptions as BuildOptions<
+            T,
+            TTraits,
+            TTransient,
+            TTraitArgs
+          >,
+          options
+        )
+      : options;
+    return runInScope(state.scopeId, () => buildObjectInScope(buildOptions));
+  };
+
+  // Builds a single instance of T
+  const buildInstance = (
+    options: BuildOptions<T, TTraits, TTransient, TTraitArgs> = {}
+  ): T => {
+    return buildObject(options).instance;
+  };
+
+  // Returns the adapter used to persist objects, failing when there is none
+  const resolveAdapter = (): PersistenceAdapter<T, TResult> => {
+    const adapter = state.adapter ?? getDefaultAdapter();
+    if (!adapter) {
+      throw new Error(
+        'No persistence adapter available: set one with factory.adapter() or setDefaultAdapter()'
+      );
+    }
+
+    return adapter;
+  };
+
+  // Builds objects as they are iterated, merging the per-item options on top of the
+  // shared ones. Without a count, objects are built endlessly.
+  function* iterateObjects(
+    count: number | undefined,
+    {
+      customize,
+      ...sharedOptions
+    }: BuildManyOptions<T, TTraits, TTransient, TTraitArgs>
+  ): Generator<BuiltObject<T, TTransient, TResult>, void, undefined> {
+    for (let i = 0; count === undefined || i < count; i++) {
+      const itemOptions =
+        typeof customize === 'function' ? customize(i) : customize?.[i];
+      yield buildObject(mergeBuildOptions(sharedOptions, itemOptions ?? {}));
+    }
+  }
+
+  // Builds count objects
+  const buildObjects = (
+    count: number,
+    options: BuildManyOptions<T, TTraits, TTransient, TTraitArgs>
+  ): Array<BuiltObject<T, TTransient, TResult>> => {
+    return [...iterateObjects(count, options)];
+  };
+
+  // Persists built objects, then runs the afterCreate hooks on each record
+  const persistObjects = async (
+    objects: Array<BuiltObject<T, TTransient, TResult>>
+  ): Promise<TResult[]> => {
+    const adapter = resolveAdapter();
+    const instances = objects.map((object) => object.instance);
+
+    let records: TResult[];
+    if (adapter.saveMany) {
+      records = await adapter.saveMany(instances);
+    } else {
+      // Save one at a time to keep records in the same order as instances
+      records = [];
+      for (const instance of instances) {
+        records.push(await adapter.save(instance));
+      }
+    }
+
+    const results: TResult[] = [];
+    for (const [
+      index,
+      { options, transient, appliedTraits },
+    ] of objects.entries()) {
+      results.push(
+        await runCreateHooks(
+          [
+            ...afterCreateHooks,
+            ...appliedTraits.flatMap(
+              (trait) => trait.options.afterCreate ?? []
+            ),
+          ],
+          records[index],
+          options,
+          transient
+        )
+      );
+    }
+
+    return results;
+  };
+
+  // Builds and persists objects in batches as records are iterated
+  async function* streamRecords(
+    count: number | undefined,
+    {
+      batchSize = DEFAULT_BATCH_SIZE,
+      ...options
+    }: CreateStreamOptions<T, TTraits, TTransient, TTraitArgs>
+  ): AsyncGenerator<TResult, void, undefined> {
+    let batch: Array<BuiltObject<T, TTransient, TResult>> = [];
+    for (const object of iterateObjects(count, options)) {
+      batch.push(object);
+      if (batch.length < batchSize) continue;
+
+      yield* await persistObjects(batch);
+      batch = [];
+    }
+
+    if (batch.length > 0) yield* await persistObjects(batch);
+  }
+
+  // Creates a factory from a copy of the state with the given changes, leaving this one
+  // untouched. It shares the scope of this factory, but is not registered under its name,
+  // and gets its own faker stream, starting from the same seed.
+  const derive = <
+    TNewTraits extends string = TTraits,
+    TNewTransient extends object = TTransient,
+    TNewResult = TResult,
+    TNewTraitArgs extends object = TTraitArgs,
+  >(
+    changes: Partial<FactoryState<T, TTransient, TResult>>
+  ): Factory<T, TNewTraits, TNewTransient, TNewResult, TNewTraitArgs> => {
+    return createFactoryFromState<
+      T,
+      TNewTraits,
+      TNewTransient,
+      TNewResult,
+      TNewTraitArgs
+    >({
+      ...state,
+      seededFaker:
+        state.seed === undefined
+          ? undefined
+          : createSeededFaker(state.seed, state.faker),
+      ...changes,
+    } as unknown as FactoryState<T, TNewTransient, TNewResult>);
   };
 
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
-  const factory: Factory<T> & Record<string, Function> = {
+  const factory: Factory<T, TTraits, TTransient, TResult, TTraitArgs> &
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
+    Record<string, Function> = {
     define: (newAttributes) => {
-      Object.assign(attributes, newAttributes);
-      return factory;
+      return derive({ attributes: { ...attributes, ...newAttributes } });
+    },
+
+    transient: <TNewTransient extends object>(
+      newAttributes: TransientAttributesFor<TNewTransient, T & TTransient>
+    ) => {
+      return derive<TTraits, TTransient & TNewTransient>({
+        transientAttributes: {
+          ...transientAttributes,
+          ...newAttributes,
+        } as AttributesFor<T & TTransient>,
+      });
+    },
+
+    trait: <TName extends string, TArgs extends unknown[] = []>(
+      name: TName,
+      traitAttributes: TraitAttributes<T & TTransient, TArgs>,
+      traitOptions: TraitOptions<
+        T,
+        TTransient,
+        TResult,
+        TTraits,
+        TTraitArgs
+      > = {}
+    ) => {
+      return derive<
+        TTraits | TName,
+        TTransient,
+        TResult,
+        Omit<TTraitArgs, TName> & Record<TName, TArgs>
+      >({
+        traits: {
+          ...traits,
+          [name]: {
+            attributes: traitAttributes as TraitAttributes<T & TTransient>,
+            options: traitOptions,
+          },
+        },
+      });
+    },
+
+    unique: (fields, uniqueOptions = {}) => {
+      return derive({
+        uniqueConstraints: [
+          ...uniqueConstraints,
+          { fields, options: uniqueOptions },
+        ],
+      });
     },
 
-    trait: (name, traitAttributes) => {
-      traits[name] = traitAttributes;
+    beforeBuild: (hook) => {
+      return derive({ beforeBuildHooks: [...beforeBuildHooks, hook] });
+    },
+
+    afterBuild: (hook) => {
+      return derive({ afterBuildHooks: [...afterBuildHooks, hook] });
+    },
+
+    afterCreate: (hook) => {
+      return derive({ afterCreateHooks: [...afterCreateHooks, hook] });
+    },
+
+    validate: (validator, validateOptions = {}) => {
+      return derive({
+        validators: [...validators, validator],
+        strict: state.strict || Boolean(validateOptions.strict),
+        requiredKeys: [
+          ...state.requiredKeys,
+          ...getRequiredKeys(validator),
+          ...(validateOptions.required ?? []),
+        ],
+      });
+    },
+
+    adapter: <TNewResult>(adapter: PersistenceAdapter<T, TNewResult>) => {
+      return derive<TTraits, TTransient, TNewResult>({
+        adapter: adapter as unknown as PersistenceAdapter<T, TResult>,
+      });
+    },
+
+    seed: (seed) => {
+      return derive({
+        seed,
+        seededFaker: createSeededFaker(seed, state.faker),
+      });
+    },
+
+    locale: (locale) => {
+      const localeFaker = createLocaleFaker(locale, state.faker);
+      return derive({
+        faker: localeFaker,
+        seededFaker:
+          state.seed === undefined
+            ? undefined
+            : createSeededFaker(state.seed, localeFaker),
+      });
+    },
+
+    with: (options) => {
+      return derive({
+        defaultOptions: mergeBuildOptions(state.defaultOptions ?? {}, options),
+      });
+    },
+
+    reset: () => {
+      resetScopedSequences(state.scopeId);
+      clearUniqueStore(state.scopeId);
+      if (state.seed !== undefined) {
+        state.seededFaker?.seed(toSeedNumber(state.seed));
+      }
+
       return factory;
     },
 
@@ -132,12 +1045,65 @@ export function createFactory<T>(): Factory<T> {
     },
 
     buildMany: (count, options = {}) => {
-      const results: T[] = [];
-      for (let i = 0; i < count; i++) {
-        results.push(buildInstance(options));
+      return buildObjects(count, options).map((object) => object.instance);
+    },
+
+    buildIterator: (count, options = {}) => {
+      function* iterateInstances(): Generator<T, void, undefined> {
+        for (const object of iterateObjects(count, options)) {
+          yield object.instance;
+        }
+      }
+
+      return iterateInstances();
+    },
+
+    create: async (options = {}) => {
+      const [record] = await persistObjects([buildObject(options)]);
+      return record;
+    },
+
+    createMany: async (count, options = {}) => {
+      return persistObjects(buildObjects(count, options));
+    },
+
+    createStream: (count, options = {}) => {
+      return streamRecords(count, options);
+    },
+
+    destroy: async (record) => {
+      const adapter = resolveAdapter();
+      if (!adapter.destroy) {
+        throw new Error('The persistence adapter does not support destroy()');
       }
 
-      return results;
+      await adapter.destroy(record);
+    },
+
+    extend: <TChild extends T>(
+      target:
+        | FactoryConstructor<TChild>
+        | Pick<FactoryOptions<TChild>, 'initializer'> = {}
+    ) => {
+      // Copy the parent's state so the child can be refined without affecting it
+      return createFactoryFromState({
+        ...state,
+        // The parent's initializer builds objects of the parent's type, so it is not inherited
+        initializer: toInitializer(target),
+        attributes: { ...attributes },
+        transientAttributes: { ...transientAttributes },
+        traits: { ...traits },
+        scopeId: createScopeId(),
+        // The child gets its own stream, starting from the same seed
+        seededFaker:
+          state.seed === undefined
+            ? undefined
+            : createSeededFaker(state.seed, state.faker),
+      } as unknown as FactoryState<
+        TChild,
+        TTransient,
+        ExtendedResult<T, TChild, TResult>
+      >);
     },
   };
 
@@ -3,14 +3,75 @@
  */
 
 // Export everything from the core factory module
+export { createMemoryAdapter, setDefaultAdapter } from '@/adapter';
+export { association, list } from '@/association';
+export { shared } from '@/clone';
 export { createFactory } from '@/factory';
+export {
+  defineFactory,
+  factories,
+  listFactories,
+  resetFactories,
+} from '@/registry';
+export { createFactoryFromSchema } from '@/schema';
+export { setSeed } from '@/seed';
 export { resetSequence, sequence } from '@/sequence';
-export { clearAllUniqueStores, clearUniqueStore, unique } from '@/unique';
+export {
+  registerTestIsolation,
+  restoreState,
+  snapshotState,
+  type StateSnapshot,
+  type TestIsolationOptions,
+  type TestRunnerHooks,
+} from '@/testing';
+export {
+  UniqueExhaustedError,
+  clearAllUniqueStores,
+  clearUniqueStore,
+  getUniqueStats,
+  unique,
+} from '@/unique';
+export { FactoryValidationError } from '@/validation';
 
 // Export type definitions
 export type {
+  AssociationOptions,
   AttributeFunction,
   AttributesFor,
+  BuildHook,
+  BuildManyOptions,
   BuildOptions,
+  CompositeUniqueOptions,
+  CreateHook,
+  CreateStreamOptions,
+  DeepPartial,
+  ExtendedResult,
   Factory,
+  FactoryConstructor,
+  FactoryOptions,
+  FactoryValidationContext,
+  FakerInstance,
+  Initializer,
+  JsonSchema,
+  JsonSchemaConvertible,
+  JsonSchemaType,
+  MemoryAdapter,
+  NestedOverrides,
+  NoTransient,
+  OverridesFor,
+  PersistenceAdapter,
+  SafeParseSchema,
+  SchemaFactoryOptions,
+  TraitAttributes,
+  TraitOptions,
+  TraitSelection,
+  TransientAttributesFor,
+  UniqueExhaustedContext,
+  UniqueExhaustionStrategy,
+  UniqueOptions,
+  UniqueStats,
+  ValidateOptions,
+  ValidationIssue,
+  Validator,
+  ValidatorFunction,
 } from '@/types';
@@ -0,0 +1,28 @@
+/**
+ * Factory Kit setup for Jest: isolates tests from each other when loaded
+ * through `setupFilesAfterEnv`
+ */
+import { registerTestIsolation, type TestIsolationOptions } from '@/testing';
+
+/**
+ * Options of the hooks registered by this module
+ */
+const options: TestIsolationOptions = {};
+
+/**
+ * Configures the hooks registered by this module
+ *
+ * @param newOptions The options to change
+ */
+export function configureFactoryKit(newOptions: TestIsolationOptions): void {
+  Object.assign(options, newOptions);
+}
+
+registerTestIsolation(
+  {
+    beforeEach,
+    afterEach,
+    getTestName: () => expect.getState().currentTestName,
+  },
+  options
+);
@@ -0,0 +1,105 @@
+import type { Factory, NoTransient } from '@/types';
+
+// Factories of any type, as stored in the registry
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyFactory = Factory<any, any, any, any, any>;
+
+/**
+ * Factories registered by name, in registration order
+ */
+const registeredFactories = new Map<string, AnyFactory>();
+
+/**
+ * Registers a factory under a name, so other modules can use it without importing it
+ *
+ * @param name The name of the factory, unique across the registry
+ * @param factory The factory to register
+ * @returns The factory, for chaining
+ * @throws If a factory is already registered under this name
+ */
+export function defineFactory<
+  T,
+  TTraits extends string,
+  TTransient extends object,
+  TResult,
+  TTraitArgs extends object,
+>(
+  name: string,
+  factory: Factory<T, TTraits, TTransient, TResult, TTraitArgs>
+): Factory<T, TTraits, TTransient, TResult, TTraitArgs> {
+  if (registeredFactories.has(name)) {
+    throw new Error(`Factory '${name}' is already registered`);
+  }
+
+  registeredFactories.set(name, factory as unknown as AnyFactory);
+  return factory;
+}
+
+/**
+ * Lookup of the factories registered with `defineFactory()`
+ */
+export const factories = {
+  /**
+   * Returns the factory registered under a name
+   *
+   * @template T The type of objects the factory creates
+   * @template TTraits The names of the traits defined on the factory
+   * @template TTraitArgs The arguments of each trait, by trait name
+   * @param name The name of the factory
+   * @returns The registered factory
+   * @throws If no factory is registered under this name
+   */
+  get<
+    T,
+    TTraits extends string = string,
+    TTransient extends object = NoTransient,
+    TResult = T,
+    TTraitArgs extends object = Record<TTraits, []>,
+  >(name: string): Factory<T, TTraits, TTransient, TResult, TTraitArgs> {
+    const factory = registeredFactories.get(name);
+    if (!factory) {
+      const registered = listFactories().join(', ') || 'none';
+      throw new Error(
+        `Unknown factory '${name}'. Registered factories: ${registered}`
+      );
+    }
+
+    return factory as Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+  },
+
+  /**
+   * Checks whether a factory is registered under a name
+   *
+   * @param name The name of the factory
+   */
+  has(name: string): boolean {
+    return registeredFactories.has(name);
+  },
+};
+
+/**
+ * Returns the names of the registered factories, in registration order
+ */
+export function listFactories(): string[] {
+  return [...registeredFactories.keys()];
+}
+
+/**
+ * Removes every factory from the registry
+ */
+export function resetFactories(): void {
+  registeredFactories.clear();
+}
+
+/**
+ * Returns the name a factory is registered under, if any
+ *
+ * @internal
+ */
+export function getFactoryName(factory: object): string | undefined {
+  for (const [name, registered] of registeredFactories) {
+    if (registered === factory) return name;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,73 @@
+import type { Faker } from '@faker-js/faker';
+
+/**
+ * Resolves attribute definitions into values.
+ *
+ * Attribute functions receive a lazy view of the instance being built: reading
+ * an attribute from it resolves that attribute first if needed, so attributes
+ * can depend on each other whatever their declaration order.
+ *
+ * @param definitions The attribute definitions, static values or attribute functions
+ * @param presetValues Values known before resolving, whose definitions are skipped
+ * @param faker The faker instance handed to attribute functions
+ * @param afterResolve Called once each attribute is resolved, before attributes depending on it can read it
+ * @returns The resolved values, in declaration order
+ * @internal
+ */
+export function resolveAttributes(
+  definitions: Record<string, unknown>,
+  presetValues: Record<string, unknown>,
+  faker: Faker,
+  afterResolve?: (key: string, instance: Record<string, unknown>) => void
+): Record<string, unknown> {
+  const values: Record<string, unknown> = { ...presetValues };
+  const resolved = new Set(Object.keys(presetValues));
+  // Attributes currently being resolved, in resolution order, to report cycles
+  const resolving: string[] = [];
+
+  const isPending = (key: string | symbol): key is string =>
+    typeof key === 'string' &&
+    Object.hasOwn(definitions, key) &&
+    !resolved.has(key);
+
+  const resolveAttribute = (key: string): void => {
+    const cycleStart = resolving.indexOf(key);
+    if (cycleStart !== -1) {
+      const cycle = [...resolving.slice(cycleStart), key].join(' -> ');
+      throw new Error(`Circular dependency between attributes: ${cycle}`);
+    }
+
+    resolving.push(key);
+    const definition = definitions[key];
+    values[key] =
+      typeof definition === 'function'
+        ? (definition as (instance: unknown, faker: Faker) => unknown)(
+            instance,
+            faker
+          )
+        : definition;
+    resolving.pop();
+    resolved.add(key);
+    afterResolve?.(key, instance);
+  };
+
+  const instance = new Proxy(values, {
+    get: (target, key) => {
+      if (isPending(key)) resolveAttribute(key);
+      return target[key as string];
+    },
+    has: (target, key) => isPending(key) || Reflect.has(target, key),
+  });
+
+  for (const key of Object.keys(definitions)) {
+    if (isPending(key)) resolveAttribute(key);
+  }
+
+  // Keep values in declaration order rather than resolution order
+  const ordered: Record<string, unknown> = { ...presetValues };
+  for (const key of Object.keys(definitions)) {
+    ordered[key] = values[key];
+  }
+
+  return ordered;
+}
@@ -0,0 +1,277 @@
+import { createFactory } from '@/factory';
+import type {
+  AttributesFor,
+  Factory,
+  JsonSchema,
+  JsonSchemaConvertible,
+  NoTransient,
+  SchemaFactoryOptions,
+} from '@/types';
+import type { Faker } from '@faker-js/faker';
+
+// What generating values needs besides the schema of the value
+type GenerationContext = {
+  root: JsonSchema;
+  faker: Faker;
+  optionalProperties: boolean;
+  // References being generated, outermost first, to detect recursive schemas
+  refs: string[];
+  // Set within recursive references, generating as little as the schema allows
+  minimal: boolean;
+};
+
+// Generators of the string formats that have a faker counterpart
+const formatGenerators: Record<string, (faker: Faker) => string> = {
+  email: (faker) => faker.internet.email(),
+  uuid: (faker) => faker.datatype.uuid(),
+  'date-time': (faker) => faker.date.past().toISOString(),
+  date: (faker) => faker.date.past().toISOString().slice(0, 10),
+  time: (faker) => faker.date.past().toISOString().slice(11, 19),
+  uri: (faker) => faker.internet.url(),
+  url: (faker) => faker.internet.url(),
+  hostname: (faker) => faker.internet.domainName(),
+  ipv4: (faker) => faker.internet.ipv4(),
+  ipv6: (faker) => faker.internet.ipv6(),
+};
+
+// Whether the schema tells what to generate, unlike an empty schema
+function isGenerable(schema: JsonSchema): boolean {
+  return [
+    '$ref',
+    'type',
+    'enum',
+    'const',
+    'properties',
+    'items',
+    'anyOf',
+    'oneOf',
+    'allOf',
+  ].some((keyword) => Object.hasOwn(schema, keyword));
+}
+
+// Resolves a reference to another part of the root schema (#/$defs/address)
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported schema reference '${ref}'`);
+  }
+
+  let current: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = segment.replaceAll('~1', '/').replaceAll('~0', '~');
+    current =
+      typeof current === 'object' && current !== null
+        ? (current as Record<string, unknown>)[key]
+        : undefined;
+  }
+
+  if (typeof current !== 'object' || current === null) {
+    throw new Error(`Unresolved schema reference '${ref}'`);
+  }
+
+  return current as JsonSchema;
+}
+
+// Merges the schemas of allOf into a single one
+function mergeSchemas(schemas: JsonSchema[]): JsonSchema {
+  return schemas.reduce<JsonSchema>(
+    (merged, schema) => ({
+      ...merged,
+      ...schema,
+      properties: { ...merged.properties, ...schema.properties },
+      required: [...(merged.required ?? []), ...(schema.required ?? [])],
+    }),
+    {}
+  );
+}
+
+// Picks the type to generate, preferring anything over null
+function pickType(schema: JsonSchema): string | undefined {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const type = types.find((candidate) => candidate !== 'null') ?? types[0];
+  if (type) return type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+// Generates a number within the bounds of the schema
+function generateNumber(
+  schema: JsonSchema,
+  faker: Faker,
+  integer: boolean
+): number {
+  const step = integer ? 1 : 0.01;
+  const lower =
+    typeof schema.exclusiveMinimum === 'number'
+      ? schema.exclusiveMinimum + step
+      : schema.minimum;
+  const upper =
+    typeof schema.exclusiveMaximum === 'number'
+      ? schema.exclusiveMaximum - step
+      : schema.maximum;
+  const min = lower ?? Math.min(0, upper ?? 0);
+  const max = upper ?? min + 1000;
+
+  return integer
+    ? faker.datatype.number({ min: Math.ceil(min), max: Math.floor(max) })
+    : faker.datatype.float({ min, max, precision: step });
+}
+
+// Generates a string of the format of the schema, or within its length bounds
+function generateString(schema: JsonSchema, faker: Faker): string {
+  const formatGenerator =
+    schema.format === undefined ? undefined : formatGenerators[schema.format];
+  if (formatGenerator) return formatGenerator(faker);
+
+  if (schema.minLength === undefined && schema.maxLength === undefined) {
+    return faker.lorem.words();
+  }
+
+  const min = schema.minLength ?? Math.min(1, schema.maxLength ?? 1);
+  const max = schema.maxLength ?? min + 10;
+  return faker.random.alpha({ count: faker.datatype.number({ min, max }) });
+}
+
+// Generates an object with the properties of the schema
+function generateObject(
+  schema: JsonSchema,
+  context: GenerationContext
+): Record<string, unknown> {
+  const object: Record<string, unknown> = {};
+  for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+    const required = schema.required?.includes(key) ?? false;
+    if (!required && (context.minimal || !context.optionalProperties)) {
+      continue;
+    }
+
+    const value = generateValue(propertySchema, context);
+    if (value !== undefined) object[key] = value;
+  }
+
+  return object;
+}
+
+// Generates an array with a number of items within the bounds of the schema
+function generateArray(
+  schema: JsonSchema,
+  context: GenerationContext
+): unknown[] {
+  const min = schema.minItems ?? (context.minimal ? 0 : 1);
+  const max = context.minimal ? min : (schema.maxItems ?? Math.max(min, 3));
+  const count = context.faker.datatype.number({ min, max });
+
+  return Array.from({ length: count }, () =>
+    generateValue(schema.items ?? {}, context)
+  );
+}
+
+// Generates a value matching the schema, undefined when the schema doesn't tell what to generate
+function generateValue(
+  schema: JsonSchema,
+  context: GenerationContext
+): unknown {
+  if (schema.$ref !== undefined) {
+    const cycleStart = context.refs.indexOf(schema.$ref);
+    if (cycleStart !== -1 && context.minimal) {
+      const cycle = [...context.refs.slice(cycleStart), schema.$ref];
+      throw new Error(
+        `Cannot generate recursive schema: ${cycle.join(' -> ')}`
+      );
+    }
+
+    return generateValue(resolveRef(schema.$ref, context.root), {
+      ...context,
+      refs: [...context.refs, schema.$ref],
+      minimal: context.minimal || cycleStart !== -1,
+    });
+  }
+
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return context.faker.helpers.arrayElement(schema.enum);
+  if (schema.allOf) return generateValue(mergeSchemas(schema.allOf), context);
+
+  // Pick the first option that isn't null
+  const options = schema.anyOf ?? schema.oneOf;
+  if (options) {
+    const option =
+      options.find((candidate) => candidate.type !== 'null') ?? options[0];
+    return generateValue(option, context);
+  }
+
+  switch (pickType(schema)) {
+    case 'string':
+      return generateString(schema, context.faker);
+    case 'integer':
+      return generateNumber(schema, context.faker, true);
+    case 'number':
+      return generateNumber(schema, context.faker, false);
+    case 'boolean':
+      return context.faker.datatype.boolean();
+    case 'null':
+      return null;
+    case 'array':
+      return generateArray(schema, context);
+    case 'object':
+      return generateObject(schema, context);
+    default:
+      return undefined;
+  }
+}
+
+// Returns the JSON Schema of the given schema, converting schemas able to describe themselves
+function toJsonSchema(schema: JsonSchema | JsonSchemaConvertible): JsonSchema {
+  return 'toJSONSchema' in schema && typeof schema.toJSONSchema === 'function'
+    ? (schema.toJSONSchema({ unrepresentable: 'any' }) as JsonSchema)
+    : (schema as JsonSchema);
+}
+
+/**
+ * Creates a factory generating objects from a JSON Schema, or from a zod schema.
+ *
+ * Each property of the schema becomes an attribute generated with faker according to
+ * its type, format (`email`, `uuid`, `date-time`...), enum, bounds and length. The factory
+ * is a regular factory: attributes can be redefined with `define()` and traits added.
+ * Properties whose schema doesn't tell what to generate, such as zod dates, are left
+ * for `define()`.
+ *
+ * @template T The type of objects this factory will create
+ * @param schema A JSON Schema describing an object, or a schema with a `toJSONSchema()` method
+ * @param options Optional faker instance, and whether to generate properties that are not required
+ * @returns A new factory instance
+ */
+export function createFactoryFromSchema<T = Record<string, unknown>>(
+  schema: JsonSchema | JsonSchemaConvertible,
+  { optionalProperties = true, ...options }: SchemaFactoryOptions<T> = {}
+): Factory<T, never> {
+  const jsonSchema = toJsonSchema(schema);
+  const root = jsonSchema.$ref
+    ? resolveRef(jsonSchema.$ref, jsonSchema)
+    : jsonSchema;
+  if (pickType(root) !== 'object') {
+    throw new Error('createFactoryFromSchema() needs a schema of objects');
+  }
+
+  // Generate each property with the faker instance handed to attribute functions,
+  // so that seeds and locales apply
+  const attributes: Record<string, unknown> = {};
+  for (const [key, propertySchema] of Object.entries(root.properties ?? {})) {
+    const required = root.required?.includes(key) ?? false;
+    if ((!required && !optionalProperties) || !isGenerable(propertySchema)) {
+      continue;
+    }
+
+    attributes[key] = (_instance: unknown, faker: Faker) =>
+      generateValue(propertySchema, {
+        root: jsonSchema,
+        faker,
+        optionalProperties,
+        // The objects themselves are being generated from the root reference
+        refs: jsonSchema.$ref ? [jsonSchema.$ref] : [],
+        minimal: false,
+      });
+  }
+
+  return createFactory<T>(options).define(
+    attributes as AttributesFor<T & NoTransient>
+  );
+}
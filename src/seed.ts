@@ -0,0 +1,90 @@
+import type { FakerInstance } from '@/types';
+import { faker, type Faker } from '@faker-js/faker';
+
+/**
+ * Converts a seed to the number expected by faker, hashing string seeds
+ *
+ * @param seed The seed to convert
+ * @returns A numeric seed
+ * @internal
+ */
+export function toSeedNumber(seed: number | string): number {
+  if (typeof seed === 'number') return seed;
+
+  // FNV-1a hash, so that equal strings always give equal seeds
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+// Creates an instance of the class of the given faker instance, with the same locale data.
+// Faker 8 and later keep the definitions of their locale, faker 7 every locale it can switch to.
+function copyFaker(baseFaker: FakerInstance, locale?: string): Faker {
+  const FakerClass = baseFaker.constructor as new (options: object) => Faker;
+  if ('rawDefinitions' in baseFaker) {
+    return new FakerClass({ locale: baseFaker.rawDefinitions });
+  }
+
+  const v7Faker = baseFaker as Faker;
+  return new FakerClass({
+    locales: v7Faker.locales,
+    locale: locale ?? v7Faker.locale,
+    localeFallback: v7Faker.localeFallback,
+  });
+}
+
+/**
+ * Creates a faker instance with its own random stream, seeded with the given seed
+ *
+ * @param seed The seed of the new instance
+ * @param baseFaker The instance whose class and locale the new one uses, the global one by default
+ * @returns A new faker instance using the same locale as the base one
+ * @internal
+ */
+export function createSeededFaker(
+  seed: number | string,
+  baseFaker: FakerInstance = faker
+): Faker {
+  const seededFaker = copyFaker(baseFaker);
+  seededFaker.seed(toSeedNumber(seed));
+  return seededFaker;
+}
+
+/**
+ * Creates a faker instance generating data in the given locale
+ *
+ * @param locale The locale of the new instance, such as 'de' or 'fr_CH'
+ * @param baseFaker The instance whose locales the new one uses, the global one by default
+ * @returns A new faker instance, falling back to the base instance's fallback locale
+ * @throws If the base instance doesn't have the locale, or is a faker 8 or later instance
+ * @internal
+ */
+export function createLocaleFaker(
+  locale: string,
+  baseFaker: FakerInstance = faker
+): Faker {
+  if ('rawDefinitions' in baseFaker) {
+    throw new Error(
+      `Faker 8 and later instances only have their own locale: pass an instance for '${locale}' with the faker option instead`
+    );
+  }
+
+  if (!Object.hasOwn((baseFaker as Faker).locales, locale)) {
+    throw new Error(`Unknown faker locale '${locale}'`);
+  }
+
+  return copyFaker(baseFaker, locale);
+}
+
+/**
+ * Seeds the global faker instance, so that factories produce the same data on every run
+ *
+ * @param seed The seed to use, strings are hashed to a number
+ */
+export function setSeed(seed: number | string): void {
+  faker.seed(toSeedNumber(seed));
+}
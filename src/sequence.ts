@@ -1,10 +1,24 @@
+import { getActiveScope, recordClaim } from '@/context';
+
 /**
  * Sequence counter storage
  */
 const counters = new Map<string, number>();
 
 /**
- * Creates a factory function that generates a unique value using an incrementing counter
+ * Counters of sequences used by factories, by factory scope
+ */
+const scopedCounters = new Map<string, Map<string, number>>();
+
+/**
+ * Counter used to generate the ids of sequences created without one
+ */
+let autoIdCounter = 0;
+
+/**
+ * Creates a factory function that generates a unique value using an incrementing counter.
+ * Sequences without an id count separately for each factory using them, while sequences
+ * with an id share their counter.
  *
  * @param callbackFn Function that receives the current sequence number and returns a value
  * @param options Configuration options
@@ -14,8 +28,9 @@ export function sequence<T>(
   callbackFn: (n: number) => T,
   options: { id?: string; start?: number } = {}
 ): () => T {
-  // Use a unique ID for this sequence or default to a random one if not provided
-  const id = options.id ?? `seq_${Math.random().toString(36).substring(2, 9)}`;
+  // Use a unique ID for this sequence or default to a generated one if not provided.
+  // Generated ids are deterministic so that seeded runs stay reproducible.
+  const id = options.id ?? `seq_auto_${++autoIdCounter}`;
 
   // Set the initial counter value if not already set
   if (!counters.has(id)) {
@@ -24,9 +39,16 @@ export function sequence<T>(
 
   // Return a function that will increment and use the counter
   return function () {
-    // Use fallback in the unlikely case the counter doesn't exist
-    const currentValue = counters.get(id) ?? options.start ?? 1;
-    counters.set(id, currentValue + 1);
+    // Use the counters of the factory building the object, unless the sequence is shared
+    const scope = options.id === undefined ? getActiveScope() : undefined;
+    const sequenceCounters =
+      scope === undefined ? counters : getScopedCounters(scope);
+
+    // Use fallback when the counter doesn't exist yet or was reset
+    const currentValue = sequenceCounters.get(id) ?? options.start ?? 1;
+    sequenceCounters.set(id, currentValue + 1);
+    // Hand the number out again if the object using it is discarded
+    recordClaim(() => sequenceCounters.set(id, currentValue));
     return callbackFn(currentValue);
   };
 }
@@ -39,7 +61,84 @@ export function sequence<T>(
 export function resetSequence(id?: string): void {
   if (id) {
     counters.delete(id);
+    for (const sequenceCounters of scopedCounters.values()) {
+      sequenceCounters.delete(id);
+    }
   } else {
     counters.clear();
+    scopedCounters.clear();
+  }
+}
+
+// Returns the counters of a factory scope, creating them if needed
+function getScopedCounters(scope: string): Map<string, number> {
+  let sequenceCounters = scopedCounters.get(scope);
+  if (!sequenceCounters) {
+    sequenceCounters = new Map();
+    scopedCounters.set(scope, sequenceCounters);
+  }
+
+  return sequenceCounters;
+}
+
+/**
+ * Resets the counters of the sequences used by a factory
+ *
+ * @param scope The scope of the factory
+ * @internal
+ */
+export function resetScopedSequences(scope: string): void {
+  scopedCounters.delete(scope);
+}
+
+/**
+ * A copy of every sequence counter, taken by `snapshotSequences()`
+ *
+ * @internal
+ */
+export type SequenceSnapshot = {
+  counters: Map<string, number>;
+  scopedCounters: Map<string, Map<string, number>>;
+};
+
+// Copies counters, so that neither the copy nor the original see changes made to the other
+function copyCounters(
+  sourceCounters: Map<string, number>,
+  sourceScopedCounters: Map<string, Map<string, number>>
+): SequenceSnapshot {
+  return {
+    counters: new Map(sourceCounters),
+    scopedCounters: new Map(
+      [...sourceScopedCounters].map(([scope, sequenceCounters]) => [
+        scope,
+        new Map(sequenceCounters),
+      ])
+    ),
+  };
+}
+
+/**
+ * Copies every sequence counter
+ *
+ * @internal
+ */
+export function snapshotSequences(): SequenceSnapshot {
+  return copyCounters(counters, scopedCounters);
+}
+
+/**
+ * Restores every sequence counter from a snapshot, which can be restored again later
+ *
+ * @internal
+ */
+export function restoreSequences(snapshot: SequenceSnapshot): void {
+  const copy = copyCounters(snapshot.counters, snapshot.scopedCounters);
+
+  counters.clear();
+  for (const [id, value] of copy.counters) counters.set(id, value);
+
+  scopedCounters.clear();
+  for (const [scope, sequenceCounters] of copy.scopedCounters) {
+    scopedCounters.set(scope, sequenceCounters);
   }
 }
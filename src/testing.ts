@@ -0,0 +1,102 @@
+import { setSeed } from '@/seed';
+import {
+  restoreSequences,
+  snapshotSequences,
+  type SequenceSnapshot,
+} from '@/sequence';
+import {
+  restoreUniqueStores,
+  snapshotUniqueStores,
+  type UniqueStoresSnapshot,
+} from '@/unique';
+
+// Brands snapshots, so that their content stays out of the public types
+declare const stateSnapshotBrand: unique symbol;
+
+/**
+ * A copy of the sequence counters and unique value stores, taken by `snapshotState()`.
+ * Its content is private: it can only be handed to `restoreState()`.
+ */
+export type StateSnapshot = { readonly [stateSnapshotBrand]: true };
+
+// What snapshots hold
+type StateSnapshotContent = {
+  sequences: SequenceSnapshot;
+  uniqueStores: UniqueStoresSnapshot;
+};
+
+/**
+ * Options of the test isolation hooks
+ *
+ * @property {boolean} [seedFromTestName] - Seed the global faker instance with the name of each test, so that its data can be reproduced
+ */
+export type TestIsolationOptions = {
+  seedFromTestName?: boolean;
+};
+
+/**
+ * What the test isolation hooks need from a test runner
+ *
+ * @property beforeEach - Registers a function run before each test
+ * @property afterEach - Registers a function run after each test
+ * @property getTestName - Returns the full name of the running test
+ */
+export type TestRunnerHooks = {
+  beforeEach: (fn: () => void) => void;
+  afterEach: (fn: () => void) => void;
+  getTestName: () => string | undefined;
+};
+
+/**
+ * Copies every sequence counter and unique value store
+ *
+ * @returns A snapshot to restore with `restoreState()`
+ */
+export function snapshotState(): StateSnapshot {
+  const content: StateSnapshotContent = {
+    sequences: snapshotSequences(),
+    uniqueStores: snapshotUniqueStores(),
+  };
+  return content as unknown as StateSnapshot;
+}
+
+/**
+ * Restores every sequence counter and unique value store from a snapshot.
+ * The same snapshot can be restored several times.
+ *
+ * @param snapshot A snapshot taken with `snapshotState()`
+ */
+export function restoreState(snapshot: StateSnapshot): void {
+  const { sequences, uniqueStores } =
+    snapshot as unknown as StateSnapshotContent;
+  restoreSequences(sequences);
+  restoreUniqueStores(uniqueStores);
+}
+
+/**
+ * Registers hooks isolating tests from each other: sequence counters and unique
+ * value stores are restored after each test to their state before it.
+ *
+ * @param hooks The hooks of the test runner
+ * @param options Options read when each test starts, so they can be changed after registering
+ */
+export function registerTestIsolation(
+  hooks: TestRunnerHooks,
+  options: TestIsolationOptions = {}
+): void {
+  let snapshot: StateSnapshot | undefined;
+
+  hooks.beforeEach(() => {
+    snapshot = snapshotState();
+
+    const testName = hooks.getTestName();
+    if (options.seedFromTestName && testName !== undefined) {
+      setSeed(testName);
+    }
+  });
+
+  hooks.afterEach(() => {
+    if (snapshot) restoreState(snapshot);
+    snapshot = undefined;
+  });
+}
@@ -1,7 +1,9 @@
+import type { Faker } from '@faker-js/faker';
+
 /**
  * A function that dynamically generates a value for a specific attribute of type T.
- * When this function is called, all attributes defined before this one
- * have already been set on the instance.
+ * Reading an attribute from the instance resolves it on demand, so attributes
+ * can depend on each other whatever their declaration order.
  *
  * @template T The object type being built by the factory
  * @template TKey The specific key/property of T being generated
@@ -26,53 +28,761 @@ export type AttributesFor<T> = {
 };
 
 /**
- * Recursive type for nested property overrides using underscore notation.
- * Allows for properties like "profile_bio" or "profile__preferences_theme".
+ * Defines the transient attributes of a factory: values computed while building
+ * and available to attribute functions, but stripped from the built object.
+ *
+ * @template TTransient The shape of the transient attributes
+ * @template TBase The attributes already known to the factory
+ */
+export type TransientAttributesFor<TTransient, TBase> = {
+  [K in keyof TTransient]:
+    | TTransient[K]
+    | ((instance: Partial<TBase & TTransient>, faker: Faker) => TTransient[K]);
+};
+
+/**
+ * The transient attributes of a factory that declares none.
+ */
+export type NoTransient = Record<never, never>;
+
+/**
+ * A deeply optional version of T: objects can be given partially, at any depth.
+ * Arrays, dates, regular expressions and functions are kept whole.
+ *
+ * @template T The type to make deeply optional
+ */
+export type DeepPartial<T> = T extends
+  | Date
+  | RegExp
+  | ((...args: never[]) => unknown)
+  | ReadonlyArray<unknown>
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+// Decrements the depth of nested override paths, which is limited to keep
+// the type checker fast on deep or recursive types
+type PathDepth = [never, 0, 1, 2, 3, 4];
+
+// The [path, value] pairs of the properties nested in T, array items included
+type NestedPathEntries<T, TDepth extends number> = [TDepth] extends [never]
+  ? never
+  : T extends Date | RegExp | ((...args: never[]) => unknown)
+    ? never
+    : T extends ReadonlyArray<infer TItem>
+      ?
+          | PathEntry<`${number}`, TItem, TDepth>
+          // Paths without an index apply to every item
+          | NestedPathEntries<NonNullable<TItem>, PathDepth[TDepth]>
+      : T extends object
+        ? {
+            [K in keyof T & string]-?: PathEntry<K, T[K], TDepth>;
+          }[keyof T & string]
+        : never;
+
+// The [path, value] pair of a property, along with the ones nested in it
+type PathEntry<TKey extends string, TValue, TDepth extends number> =
+  | [TKey, TValue]
+  | PrefixedPathEntries<
+      TKey,
+      NestedPathEntries<NonNullable<TValue>, PathDepth[TDepth]>
+    >;
+
+// Prefixes paths with the key of the property they are nested in
+type PrefixedPathEntries<TKey extends string, TEntries> = TEntries extends [
+  infer TPath extends string,
+  infer TValue,
+]
+  ? [`${TKey}__${TPath}`, TValue]
+  : never;
+
+/**
+ * Nested property overrides using double underscore paths, such as "profile__bio",
+ * "profile__preferences__theme" or "tags__0". Paths and values are checked against T.
+ * Function values are called with the instance being built, whose attributes may not
+ * all be resolved yet, or with the associated object for attributes declared with
+ * `association()` or `list()`.
  *
  * @template T The object type with properties to override
  */
 export type NestedOverrides<T> = {
-  [K in
-    | keyof T
-    | `${string & keyof T}_${string}`
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    | `${string & keyof T}__${string}`]?: any;
+  [TEntry in {
+    [K in keyof T & string]-?: PrefixedPathEntries<
+      K,
+      NestedPathEntries<NonNullable<T[K]>, 4>
+    >;
+  }[keyof T & string] as TEntry[0]]?:
+    | TEntry[1]
+    | ((instance: Partial<T>, faker: Faker) => TEntry[1]);
 };
 
+/**
+ * Overrides provided when building an object: attribute values or attribute functions,
+ * deep partial objects merged into the built attribute values, and nested overrides.
+ *
+ * @template T The object type being built by the factory
+ */
+export type OverridesFor<T> = {
+  [K in keyof T]?: DeepPartial<T[K]> | AttributeFunction<T, K>;
+} & NestedOverrides<T>;
+
+// The arguments of a trait, any arguments when the trait isn't known by name
+type TraitArgsOf<TTraitArgs, TName extends string> = string extends TName
+  ? unknown[]
+  : TName extends keyof TTraitArgs
+    ? Extract<TTraitArgs[TName], unknown[]>
+    : unknown[];
+
+/**
+ * A trait to apply when building an object: either its name, or a tuple of its
+ * name followed by the arguments handed to a parameterized trait. Traits whose
+ * arguments are required can only be selected with them.
+ *
+ * @template TTraits The names of the traits defined on the factory
+ * @template TTraitArgs The arguments of each trait, by trait name
+ */
+export type TraitSelection<
+  TTraits extends string = string,
+  TTraitArgs extends object = Record<TTraits, []>,
+> = {
+  [TName in TTraits]:
+    | ([] extends TraitArgsOf<TTraitArgs, TName> ? TName : never)
+    | [TName, ...TraitArgsOf<TTraitArgs, TName>];
+}[TTraits];
+
+/**
+ * The attributes of a trait: either a map of attributes, or a function taking
+ * the trait's arguments and returning that map.
+ *
+ * @template T The object type being built by the factory
+ * @template TArgs The arguments of a parameterized trait
+ */
+export type TraitAttributes<T, TArgs extends unknown[] = never[]> =
+  | AttributesFor<T>
+  | ((...args: TArgs) => AttributesFor<T>);
+
 /**
  * Options that can be provided when building an object with a factory.
  *
  * @template T The object type being built by the factory
- * @property {string[]} [traits] - Names of traits to apply to the built object
- * @property {NestedOverrides<T>} [overrides] - Specific attribute values to override, supporting nested overrides
+ * @template TTraits The names of the traits defined on the factory
+ * @template TTransient The transient attributes of the factory
+ * @template TTraitArgs The arguments of each trait, by trait name
+ * @property {Array<TraitSelection<TTraits, TTraitArgs>>} [traits] - Traits to apply to the built object, by name or as a [name, ...args] tuple
+ * @property {OverridesFor<T & TTransient>} [overrides] - Specific attribute values or attribute functions to override, supporting deep partial objects, nested overrides and transient attributes
+ * @property {Partial<TTransient>} [transient] - Values for transient attributes
+ */
+export type BuildOptions<
+  T,
+  TTraits extends string = string,
+  TTransient extends object = NoTransient,
+  TTraitArgs extends object = Record<TTraits, []>,
+> = {
+  traits?: Array<TraitSelection<TTraits, TTraitArgs>>;
+  overrides?: OverridesFor<T & TTransient>;
+  transient?: Partial<TTransient>;
+};
+
+/**
+ * Options that can be provided when building several objects with a factory.
+ * Per-item options are merged on top of the shared ones: traits are appended,
+ * while overrides and transient values replace the shared ones.
+ *
+ * @template T The object type being built by the factory
+ * @template TTraits The names of the traits defined on the factory
+ * @template TTransient The transient attributes of the factory
+ * @template TTraitArgs The arguments of each trait, by trait name
+ * @property {Array<BuildOptions<T>> | ((index: number) => BuildOptions<T>)} [customize] - Options for each item, by index
+ */
+export type BuildManyOptions<
+  T,
+  TTraits extends string = string,
+  TTransient extends object = NoTransient,
+  TTraitArgs extends object = Record<TTraits, []>,
+> = BuildOptions<T, TTraits, TTransient, TTraitArgs> & {
+  customize?:
+    | Array<BuildOptions<T, TTraits, TTransient, TTraitArgs>>
+    | ((index: number) => BuildOptions<T, TTraits, TTransient, TTraitArgs>);
+};
+
+/**
+ * Options that can be provided when creating a stream of records with `factory.createStream()`.
+ *
+ * @template T The object type being built by the factory
+ * @template TTraits The names of the traits defined on the factory
+ * @template TTransient The transient attributes of the factory
+ * @template TTraitArgs The arguments of each trait, by trait name
+ * @property {number} [batchSize] - Number of objects built and persisted together, 100 by default
+ */
+export type CreateStreamOptions<
+  T,
+  TTraits extends string = string,
+  TTransient extends object = NoTransient,
+  TTraitArgs extends object = Record<TTraits, []>,
+> = BuildManyOptions<T, TTraits, TTransient, TTraitArgs> & {
+  batchSize?: number;
+};
+
+/**
+ * Options that can be provided when declaring an association with `association()` or `list()`.
+ *
+ * @template TChild The object type built by the associated factory
+ * @template TTraits The names of the traits defined on the associated factory
+ * @template TTraitArgs The arguments of each trait of the associated factory, by trait name
+ * @property {Array<TraitSelection<TTraits, TTraitArgs>>} [traits] - Traits applied to every associated object
+ * @property {BuildOptions<TChild>['overrides']} [overrides] - Overrides applied to every associated object, before the ones forwarded by the parent build
+ * @property {string} [inverse] - Attribute of the associated objects set to the parent once it is built
+ */
+export type AssociationOptions<
+  TChild,
+  TTraits extends string = string,
+  TTraitArgs extends object = Record<TTraits, []>,
+> = {
+  traits?: Array<TraitSelection<TTraits, TTraitArgs>>;
+  overrides?: BuildOptions<TChild, TTraits>['overrides'];
+  inverse?: keyof TChild & string;
+};
+
+/**
+ * A lifecycle hook run while an object is being built.
+ * Hooks can either mutate the instance in place or return a replacement.
+ *
+ * @template T The object type being built by the factory
+ * @template TTransient The transient attributes of the factory
+ * @param instance The instance being built
+ * @param options The build options used for this build
+ * @param transient The transient values resolved for this build
+ * @returns A replacement instance, or nothing to keep the current one
+ */
+export type BuildHook<T, TTransient extends object = NoTransient> = (
+  instance: T,
+  options: BuildOptions<T, string, TTransient>,
+  transient: TTransient
+  // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+) => T | void;
+
+/**
+ * A lifecycle hook run once an object has been persisted by `create()` or `createMany()`.
+ * Hooks can either mutate the record in place or return a replacement.
+ *
+ * @template T The object type being built by the factory
+ * @template TTransient The transient attributes of the factory
+ * @template TResult The type of the records returned by the persistence adapter
+ * @param record The record returned by the persistence adapter
+ * @param options The build options used for this build
+ * @param transient The transient values resolved for this build
+ * @returns A replacement record, or nothing to keep the current one
+ */
+export type CreateHook<
+  T,
+  TTransient extends object = NoTransient,
+  TResult = T,
+> = (
+  record: TResult,
+  options: BuildOptions<T, string, TTransient>,
+  transient: TTransient
+  // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+) => TResult | void | Promise<TResult | void>;
+
+/**
+ * Options that can be provided when defining a trait.
+ *
+ * @template T The object type being built by the factory
+ * @template TTransient The transient attributes of the factory
+ * @template TResult The type of the records returned by the persistence adapter
+ * @template TTraits The names of the traits the trait can include
+ * @template TTraitArgs The arguments of each trait the trait can include, by trait name
+ * @property {Array<TraitSelection<TTraits, TTraitArgs>>} [include] - Traits applied before this trait's own attributes, whenever it is used
+ * @property {BuildHook<T>} [beforeBuild] - Hook run once attributes are resolved, when the trait is used
+ * @property {BuildHook<T>} [afterBuild] - Hook run once the object is fully built, when the trait is used
+ * @property {CreateHook<T>} [afterCreate] - Hook run once the object is persisted, when the trait is used
  */
-export type BuildOptions<T> = {
-  traits?: string[];
-  overrides?: Partial<T> & NestedOverrides<T>;
+export type TraitOptions<
+  T,
+  TTransient extends object = NoTransient,
+  TResult = T,
+  TTraits extends string = string,
+  TTraitArgs extends object = Record<TTraits, []>,
+> = {
+  include?: Array<TraitSelection<TTraits, TTraitArgs>>;
+  beforeBuild?: BuildHook<T, TTransient>;
+  afterBuild?: BuildHook<T, TTransient>;
+  afterCreate?: CreateHook<T, TTransient, TResult>;
 };
 
+/**
+ * Persists the objects built by a factory, powering `create()` and `createMany()`.
+ *
+ * @template T The object type being built by the factory
+ * @template TResult The type of the records resolved once persisted
+ */
+export interface PersistenceAdapter<T, TResult = T> {
+  /**
+   * Persists a single object.
+   *
+   * @param instance The built object to persist
+   * @returns The persisted record
+   */
+  save: (instance: T) => Promise<TResult>;
+
+  /**
+   * Persists several objects at once. When omitted, `save` is called for each object in turn.
+   *
+   * @param instances The built objects to persist
+   * @returns The persisted records, in the same order
+   */
+  saveMany?: (instances: T[]) => Promise<TResult[]>;
+
+  /**
+   * Removes a persisted record.
+   *
+   * @param record The record to remove
+   */
+  destroy?: (record: TResult) => Promise<void>;
+}
+
+/**
+ * An in-memory persistence adapter, keeping saved records in an array.
+ *
+ * @template T The type of the records stored by the adapter
+ */
+export interface MemoryAdapter<T> extends PersistenceAdapter<T, T> {
+  /**
+   * The records saved so far, in insertion order.
+   */
+  readonly records: T[];
+
+  /**
+   * Removes every saved record.
+   */
+  clear: () => void;
+}
+
+/**
+ * What is known about a field once no unique value could be generated for it.
+ *
+ * @property {string} factoryId - Scope of the uniqueness
+ * @property {string} fieldName - Field, or fields joined with '+' for composite uniqueness
+ * @property {number} attempts - Number of values generated before giving up
+ * @property {number} storeSize - Number of values already used for the field
+ */
+export type UniqueExhaustedContext = {
+  factoryId: string;
+  fieldName: string;
+  attempts: number;
+  storeSize: number;
+};
+
+/**
+ * What `unique()` does once it runs out of retries: throw a `UniqueExhaustedError`,
+ * append a numeric suffix to the last generated string, try again with a wider
+ * generator, or use the value returned by a callback.
+ *
+ * @template T The type of the generated values
+ */
+export type UniqueExhaustionStrategy<T> =
+  | 'throw'
+  | 'suffix'
+  | { widen: () => T }
+  | ((context: UniqueExhaustedContext) => T);
+
+/**
+ * Statistics of a unique value store, as reported by `getUniqueStats()`.
+ *
+ * @property {string} factoryId - Scope of the uniqueness
+ * @property {string} fieldName - Field, or fields joined with '+' for composite uniqueness
+ * @property {number} size - Number of values used
+ * @property {number} attempts - Number of values generated
+ * @property {number} collisions - Number of generated values that were already used
+ * @property {number} collisionRate - Share of generated values that were already used
+ */
+export type UniqueStats = {
+  factoryId: string;
+  fieldName: string;
+  size: number;
+  attempts: number;
+  collisions: number;
+  collisionRate: number;
+};
+
+/**
+ * Options that can be provided when generating unique values with `unique()`.
+ * Values are compared by reference unless a key function or the deep mode is used.
+ *
+ * @template T The type of the generated values
+ * @property {string} [factoryId] - Scope of the uniqueness, the factory building the object by default
+ * @property {number} [maxRetries] - Number of attempts before giving up, 100 by default
+ * @property {(value: T) => string} [key] - Returns the key values are compared by
+ * @property {boolean} [deep] - Compare objects, arrays, dates, maps and sets by content
+ * @property {UniqueExhaustionStrategy<T>} [onExhausted] - What to do once retries run out, 'throw' by default
+ */
+export type UniqueOptions<T> = {
+  factoryId?: string;
+  maxRetries?: number;
+  key?: (value: T) => string;
+  deep?: boolean;
+  onExhausted?: UniqueExhaustionStrategy<T>;
+};
+
+/**
+ * Options that can be provided when declaring fields unique together with `factory.unique()`.
+ *
+ * @property {string} [factoryId] - Scope of the uniqueness, the factory by default
+ * @property {number} [maxRetries] - Number of builds attempted before giving up, 100 by default
+ */
+export type CompositeUniqueOptions = Pick<
+  UniqueOptions<unknown>,
+  'factoryId' | 'maxRetries'
+>;
+
+/**
+ * A problem found when validating a built object.
+ *
+ * @property {string} path - Path of the offending attribute in override notation (`profile__bio`), empty for the object itself
+ * @property {string} message - What is wrong with the attribute
+ */
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+/**
+ * Schema validating values with `safeParse()`, as zod schemas do.
+ */
+export type SafeParseSchema = {
+  safeParse: (value: unknown) =>
+    | { success: true }
+    | {
+        success: false;
+        error: { issues: Array<{ path: PropertyKey[]; message: string }> };
+      };
+};
+
+/**
+ * Checks a built object. Invalid objects are reported by returning false, a message
+ * or a non-empty list of issues; anything else means the object is valid.
+ *
+ * @template T The type of the built objects
+ */
+export type ValidatorFunction<T> = (
+  instance: T
+  // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+) => boolean | string | ValidationIssue[] | void;
+
+/**
+ * Validates built objects: a schema with `safeParse()` or a validator function.
+ *
+ * @template T The type of the built objects
+ */
+export type Validator<T> = SafeParseSchema | ValidatorFunction<T>;
+
+/**
+ * Options that can be provided when validating built objects with `factory.validate()`.
+ *
+ * @template T The type of the built objects
+ * @property {boolean} [strict] - Also fail when a required attribute, or an attribute set by overrides, is never defined by the factory
+ * @property {Array<keyof T & string>} [required] - Attributes the factory must define in strict mode, besides the ones required by schemas able to describe themselves as JSON Schema
+ */
+export type ValidateOptions<T = unknown> = {
+  strict?: boolean;
+  required?: Array<keyof T & string>;
+};
+
+/**
+ * What a `FactoryValidationError` reports about an invalid object.
+ *
+ * @property {string} [factoryName] - Name of the factory in the registry, if registered
+ * @property {string[]} traits - Traits the object was built with
+ * @property {ValidationIssue[]} issues - Problems found in the object
+ */
+export type FactoryValidationContext = {
+  factoryName?: string;
+  traits: string[];
+  issues: ValidationIssue[];
+};
+
+/**
+ * Builds the final object from the resolved attributes, for instance by passing
+ * them to a class constructor. Transient attributes are not part of them.
+ *
+ * @template T The type of the built objects
+ */
+export type Initializer<T> = (attributes: T) => T;
+
+/**
+ * A class whose constructor takes the resolved attributes of the objects.
+ *
+ * @template T The type of the built objects
+ */
+export type FactoryConstructor<T> = new (attributes: never) => T;
+
+/**
+ * A faker instance of any major version. Attribute functions receive it typed as the
+ * bundled faker version, so factories using another major use their own faker types.
+ */
+export type FakerInstance = {
+  seed(seed: number): unknown;
+};
+
+/**
+ * Options that can be provided when creating a factory.
+ *
+ * @template T The type of the built objects
+ * @property {FakerInstance} [faker] - Faker instance handed to attribute functions instead of the global one
+ * @property {Initializer<T>} [initializer] - Builds the final object from the resolved attributes, instead of using them as is
+ */
+export type FactoryOptions<T = never> = {
+  faker?: FakerInstance;
+  // A method, so that options without a type argument fit factories of any type
+  initializer?(attributes: T): T;
+};
+
+/**
+ * The JSON Schema types handled by `createFactoryFromSchema()`.
+ */
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+  | 'array'
+  | 'object';
+
+/**
+ * The part of JSON Schema `createFactoryFromSchema()` generates values from.
+ * Other keywords are ignored.
+ */
+export type JsonSchema = {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  nullable?: boolean;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+};
+
+/**
+ * Schema able to describe itself as JSON Schema, as zod 4 schemas do.
+ */
+export type JsonSchemaConvertible = {
+  toJSONSchema: (params: { unrepresentable: 'any' }) => unknown;
+};
+
+/**
+ * Options that can be provided when creating a factory with `createFactoryFromSchema()`.
+ *
+ * @template T The type of the built objects
+ * @property {boolean} [optionalProperties] - Generate properties that are not required, true by default
+ */
+export type SchemaFactoryOptions<T = never> = FactoryOptions<T> & {
+  optionalProperties?: boolean;
+};
+
+/**
+ * The type of the records of a factory extending another one: records holding
+ * the parent's objects hold the child's objects instead.
+ *
+ * @template T The object type of the parent factory
+ * @template TChild The object type of the child factory
+ * @template TResult The type of the records of the parent factory
+ */
+export type ExtendedResult<T, TChild extends T, TResult> = TResult extends T
+  ? TChild & TResult
+  : TResult;
+
 /**
  * Represents a factory for creating instances of type T.
+ * Factories are immutable: configuring one creates a new factory.
  *
  * @template T The object type this factory produces
+ * @template TTraits The names of the traits defined on the factory
+ * @template TTransient The transient attributes of the factory
+ * @template TResult The type of the records resolved by `create()` and `createMany()`
+ * @template TTraitArgs The arguments of each trait, by trait name
  */
-export interface Factory<T> {
+export interface Factory<
+  T,
+  TTraits extends string = string,
+  TTransient extends object = NoTransient,
+  TResult = T,
+  TTraitArgs extends object = Record<TTraits, []>,
+> {
   /**
    * Defines the default attributes for objects created by this factory.
    *
    * @param attributes The default attributes configuration
-   * @returns The factory instance for chaining
+   * @returns A new factory, leaving this one untouched
    */
-  define: (attributes: AttributesFor<T>) => Factory<T>;
+  define: (
+    attributes: AttributesFor<T & TTransient>
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Defines transient attributes: values available to attribute functions
+   * and hooks, but stripped from the built object.
+   *
+   * @template TNewTransient The shape of the transient attributes
+   * @param attributes The transient attributes configuration
+   * @returns A new factory, leaving this one untouched
+   */
+  transient: <TNewTransient extends object>(
+    attributes: TransientAttributesFor<TNewTransient, T & TTransient>
+  ) => Factory<T, TTraits, TTransient & TNewTransient, TResult, TTraitArgs>;
 
   /**
    * Defines a named trait (variant) that can be applied when building objects.
+   * The name is added to the trait names accepted by the returned factory.
    *
+   * @template TName The name of the trait
+   * @template TArgs The arguments of a parameterized trait
    * @param name The name of the trait
-   * @param attributes The attributes specific to this trait
+   * @param attributes The attributes specific to this trait, or a function returning them from the trait's arguments
+   * @param options Optional traits to include and hooks run only when this trait is applied
+   * @returns A new factory, leaving this one untouched
+   */
+  trait: <TName extends string, TArgs extends unknown[] = []>(
+    name: TName,
+    attributes: TraitAttributes<T & TTransient, TArgs>,
+    options?: TraitOptions<T, TTransient, TResult, TTraits, TTraitArgs>
+  ) => Factory<
+    T,
+    TTraits | TName,
+    TTransient,
+    TResult,
+    Omit<TTraitArgs, TName> & Record<TName, TArgs>
+  >;
+
+  /**
+   * Declares fields that must be unique together: objects whose combination of
+   * values was already built are resolved again.
+   *
+   * @param fields The fields unique together, compared by content
+   * @param options The scope of the uniqueness and the number of attempts
+   * @returns A new factory, leaving this one untouched
+   */
+  unique: (
+    fields: Array<keyof T & string>,
+    options?: CompositeUniqueOptions
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Registers a hook run once attributes and traits are resolved.
+   * Overrides are applied again after it, so they win over its changes.
+   *
+   * @param hook The hook to run
+   * @returns A new factory, leaving this one untouched
+   */
+  beforeBuild: (
+    hook: BuildHook<T, TTransient>
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Registers a hook run once the object is fully built, overrides included.
+   *
+   * @param hook The hook to run
+   * @returns A new factory, leaving this one untouched
+   */
+  afterBuild: (
+    hook: BuildHook<T, TTransient>
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Registers a hook run once an object is persisted by `create()` or `createMany()`.
+   *
+   * @param hook The hook to run
+   * @returns A new factory, leaving this one untouched
+   */
+  afterCreate: (
+    hook: CreateHook<T, TTransient, TResult>
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Validates every built object, throwing a `FactoryValidationError` naming the
+   * factory, the traits and the offending paths when it is invalid.
+   * Objects are validated once fully built, after the afterBuild hooks.
+   *
+   * @param validator A schema with `safeParse()`, such as a zod schema, or a validator function
+   * @param options Optional strict mode, rejecting required attributes and overrides the factory never defines
+   * @returns A new factory, leaving this one untouched
+   */
+  validate: (
+    validator: Validator<T>,
+    options?: ValidateOptions<T>
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Sets the persistence adapter used by `create()` and `createMany()`,
+   * instead of the default adapter.
+   *
+   * @template TNewResult The type of the records resolved by the adapter
+   * @param adapter The persistence adapter
+   * @returns A new factory, leaving this one untouched
+   */
+  adapter: <TNewResult>(
+    adapter: PersistenceAdapter<T, TNewResult>
+  ) => Factory<T, TTraits, TTransient, TNewResult, TTraitArgs>;
+
+  /**
+   * Gives this factory its own faker stream, seeded with the given seed,
+   * so that it produces the same objects on every run.
+   * The stream is the faker instance handed to attribute functions.
+   *
+   * @param seed The seed to use, strings are hashed to a number
+   * @returns A new factory, leaving this one untouched
+   */
+  seed: (
+    seed: number | string
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Creates a variant of this factory building objects with the given traits,
+   * overrides and transient values by default. Options given when building are
+   * merged on top of them. The variant shares the sequences and unique values of
+   * this factory, and is not registered under its name.
+   *
+   * @param options The default build options of the variant
+   * @returns A new factory, leaving this one untouched
+   */
+  with: (
+    options: BuildOptions<T, TTraits, TTransient, TTraitArgs>
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Resets what this factory owns: the counters of the sequences and the unique
+   * values it used without an explicit id, and its faker stream if it is seeded.
+   *
    * @returns The factory instance for chaining
    */
-  trait: (name: string, attributes: AttributesFor<T>) => Factory<T>;
+  reset: () => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
+
+  /**
+   * Hands attribute functions a faker instance generating data in the given locale,
+   * based on the factory's faker instance. Seeded factories keep their seed.
+   *
+   * @param locale The locale to use, such as 'de' or 'fr_CH'
+   * @returns A new factory, leaving this one untouched
+   */
+  locale: (
+    locale: string
+  ) => Factory<T, TTraits, TTransient, TResult, TTraitArgs>;
 
   /**
    * Builds a single instance of the object.
@@ -80,34 +790,94 @@ export interface Factory<T> {
    * @param options Optional build configuration including traits and overrides
    * @returns A new instance of type T
    */
-  build: (options?: BuildOptions<T>) => T;
+  build: (options?: BuildOptions<T, TTraits, TTransient, TTraitArgs>) => T;
 
   /**
    * Builds multiple instances of the object.
    *
    * @param count The number of instances to build
-   * @param options Optional build configuration including traits and overrides
+   * @param options Optional build configuration including traits, overrides and per-item customizations
    * @returns An array of instances of type T
    */
-  buildMany: (count: number, options?: BuildOptions<T>) => T[];
-}
+  buildMany: (
+    count: number,
+    options?: BuildManyOptions<T, TTraits, TTransient, TTraitArgs>
+  ) => T[];
 
-/**
- * Simplified interface for the Faker library used for generating test data.
- * This avoids direct dependency on the Faker library in type definitions.
- */
-export interface Faker {
-  name: {
-    firstName: () => string;
-    lastName: () => string;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    [key: string]: any;
-  };
-  internet: {
-    email: () => string;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    [key: string]: any;
-  };
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  [key: string]: any;
+  /**
+   * Builds instances of the object one at a time, as they are iterated, so that
+   * large numbers of objects never need to be held in memory together.
+   *
+   * @param count The number of instances to build, endless when omitted
+   * @param options Optional build configuration including traits, overrides and per-item customizations
+   * @returns An iterator over instances of type T
+   */
+  buildIterator: (
+    count?: number,
+    options?: BuildManyOptions<T, TTraits, TTransient, TTraitArgs>
+  ) => IterableIterator<T>;
+
+  /**
+   * Builds a single instance of the object and persists it.
+   *
+   * @param options Optional build configuration including traits and overrides
+   * @returns The record resolved by the persistence adapter
+   */
+  create: (
+    options?: BuildOptions<T, TTraits, TTransient, TTraitArgs>
+  ) => Promise<TResult>;
+
+  /**
+   * Builds multiple instances of the object and persists them.
+   *
+   * @param count The number of instances to create
+   * @param options Optional build configuration including traits, overrides and per-item customizations
+   * @returns The records resolved by the persistence adapter
+   */
+  createMany: (
+    count: number,
+    options?: BuildManyOptions<T, TTraits, TTransient, TTraitArgs>
+  ) => Promise<TResult[]>;
+
+  /**
+   * Builds and persists instances of the object in batches, as they are iterated.
+   * The stream can be turned into a Node.js stream with `Readable.from()`.
+   *
+   * @param count The number of instances to create, endless when omitted
+   * @param options Optional build configuration, per-item customizations and batch size
+   * @returns An async iterator over the records resolved by the persistence adapter
+   */
+  createStream: (
+    count?: number,
+    options?: CreateStreamOptions<T, TTraits, TTransient, TTraitArgs>
+  ) => AsyncIterableIterator<TResult>;
+
+  /**
+   * Removes a record persisted by this factory, through the persistence adapter.
+   *
+   * @param record The record to remove
+   */
+  destroy: (record: TResult) => Promise<void>;
+
+  /**
+   * Creates a new factory for a subtype of T, starting from a copy of this
+   * factory's attributes, traits, hooks and persistence adapter.
+   * Refining the child factory never affects this one. The constructor or
+   * initializer of this factory is not inherited, since it builds objects of type T.
+   *
+   * @template TChild The object type the child factory produces
+   * @param target Optional class of the child objects, whose constructor takes their attributes, or initializer building them
+   * @returns A new factory instance
+   */
+  extend: <TChild extends T>(
+    target?:
+      | FactoryConstructor<TChild>
+      | Pick<FactoryOptions<TChild>, 'initializer'>
+  ) => Factory<
+    TChild,
+    TTraits,
+    TTransient,
+    ExtendedResult<T, TChild, TResult>,
+    TTraitArgs
+  >;
 }
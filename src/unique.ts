@@ -1,30 +1,163 @@
+import { getActiveScope, recordClaim } from '@/context';
+import type {
+  UniqueExhaustedContext,
+  UniqueOptions,
+  UniqueStats,
+} from '@/types';
+
+/**
+ * The values already used for a field, along with counters for diagnostics
+ *
+ * @internal
+ */
+export type UniqueStore = {
+  values: Set<unknown>;
+  attempts: number;
+  collisions: number;
+};
+
 // This is likely storing a map of factoryId -> fieldName -> values
-const uniqueValueStores: Record<string, Record<string, Set<unknown>>> = {};
+const uniqueValueStores: Record<string, Record<string, UniqueStore>> = {};
 const DEFAULT_FACTORY_ID = 'default';
-const DEFAULT_MAX_RETRIES = 100;
+/**
+ * Number of attempts made to generate a unique value before giving up
+ *
+ * @internal
+ */
+export const DEFAULT_MAX_RETRIES = 100;
+
+/**
+ * Thrown when no unique value could be generated for a field
+ */
+export class UniqueExhaustedError extends Error {
+  /** Scope of the uniqueness */
+  readonly factoryId: string;
+  /** Field, or fields joined with '+' for composite uniqueness */
+  readonly fieldName: string;
+  /** Number of values generated before giving up */
+  readonly attempts: number;
+  /** Number of values already used for the field */
+  readonly storeSize: number;
+
+  constructor(
+    { factoryId, fieldName, attempts, storeSize }: UniqueExhaustedContext,
+    message = `Could not generate unique value for field '${fieldName}' after ${attempts} attempts`
+  ) {
+    super(`${message} (${storeSize} values used in scope '${factoryId}')`);
+    this.name = 'UniqueExhaustedError';
+    this.factoryId = factoryId;
+    this.fieldName = fieldName;
+    this.attempts = attempts;
+    this.storeSize = storeSize;
+  }
+}
+
+// Serializes a value by content, with object keys sorted so that equal objects give equal strings
+function serializeValue(value: unknown): string {
+  if (value instanceof Date) return `Date(${value.getTime()})`;
+  if (value instanceof Map) return `Map(${serializeValue([...value])})`;
+  if (value instanceof Set) return `Set(${serializeValue([...value])})`;
+  if (Array.isArray(value)) return `[${value.map(serializeValue).join(',')}]`;
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'bigint') return `${String(value)}n`;
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${serializeValue((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(',')}}`;
+  }
+
+  return String(value);
+}
+
+/**
+ * Returns the key under which a value is stored to check its uniqueness:
+ * the result of the key option, a serialization of its content in deep mode,
+ * or the value itself
+ *
+ * @internal
+ */
+export function toUniqueKey<T>(
+  value: T,
+  { key, deep = false }: Pick<UniqueOptions<T>, 'key' | 'deep'> = {}
+): unknown {
+  if (key) return key(value);
+  return deep ? serializeValue(value) : value;
+}
+
+/**
+ * Returns the store of the values already used for a field
+ *
+ * @internal
+ */
+export function getUniqueStore(
+  fieldName: string,
+  factoryId: string = DEFAULT_FACTORY_ID
+): UniqueStore {
+  // Initialize factory store if needed
+  if (!uniqueValueStores[factoryId]) {
+    uniqueValueStores[factoryId] = {};
+  }
+
+  // Initialize field store if needed
+  if (!uniqueValueStores[factoryId][fieldName]) {
+    uniqueValueStores[factoryId][fieldName] = {
+      values: new Set(),
+      attempts: 0,
+      collisions: 0,
+    };
+  }
+
+  return uniqueValueStores[factoryId][fieldName];
+}
+
+/**
+ * Adds a key to a store unless it is already used, counting the attempt
+ *
+ * @returns Whether the key was free
+ * @internal
+ */
+export function claimUniqueKey(store: UniqueStore, key: unknown): boolean {
+  store.attempts++;
+  if (store.values.has(key)) {
+    store.collisions++;
+    return false;
+  }
+
+  store.values.add(key);
+  // Free the key again if the object using it is discarded
+  recordClaim(() => store.values.delete(key));
+  return true;
+}
 
 // Function to generate unique values
 export function unique<T>(
   generator: () => T,
   fieldName: string,
-  options: { factoryId?: string; maxRetries?: number } = {}
+  options: UniqueOptions<T> = {}
 ): () => T {
-  const { factoryId = DEFAULT_FACTORY_ID, maxRetries = DEFAULT_MAX_RETRIES } =
-    options;
+  const { maxRetries = DEFAULT_MAX_RETRIES, onExhausted = 'throw' } = options;
 
   return () => {
-    // Move initialization inside the returned function so it runs every time
-    // Initialize factory store if needed
-    if (!uniqueValueStores[factoryId]) {
-      uniqueValueStores[factoryId] = {};
-    }
-
-    // Initialize field store if needed
-    if (!uniqueValueStores[factoryId][fieldName]) {
-      uniqueValueStores[factoryId][fieldName] = new Set();
-    }
+    // Values are unique within the factory building the object, unless a factoryId is given
+    const factoryId =
+      options.factoryId ?? getActiveScope() ?? DEFAULT_FACTORY_ID;
+    // Get the store inside the returned function, so that it is recreated once cleared
+    const store = getUniqueStore(fieldName, factoryId);
+    const claim = (candidate: T) =>
+      claimUniqueKey(store, toUniqueKey(candidate, options));
+    const exhausted = (attempts: number) =>
+      new UniqueExhaustedError({
+        factoryId,
+        fieldName,
+        attempts,
+        storeSize: store.values.size,
+      });
 
-    const valueStore = uniqueValueStores[factoryId][fieldName];
     let value: T;
     let attempts = 0;
 
@@ -33,18 +166,65 @@ export function unique<T>(
       attempts++;
 
       // If the value is unique, add it to the store and return
-      if (!valueStore.has(value)) {
-        valueStore.add(value);
-        return value;
-      }
+      if (claim(value)) return value;
     } while (attempts < maxRetries);
 
-    throw new Error(
-      `Could not generate unique value for field '${fieldName}' after ${maxRetries} attempts`
-    );
+    // Fall back on the exhaustion strategy
+    if (onExhausted === 'throw') throw exhausted(attempts);
+
+    if (onExhausted === 'suffix') {
+      if (typeof value !== 'string') throw exhausted(attempts);
+
+      // Terminates, since at most every used value collides
+      for (let suffix = 1; ; suffix++) {
+        const candidate = `${value}-${suffix}` as T;
+        if (claim(candidate)) return candidate;
+      }
+    }
+
+    if (typeof onExhausted === 'function') {
+      const candidate = onExhausted({
+        factoryId,
+        fieldName,
+        attempts,
+        storeSize: store.values.size,
+      });
+      if (claim(candidate)) return candidate;
+      throw exhausted(attempts + 1);
+    }
+
+    // Give the wider generator as many attempts as the original one
+    for (let widened = 0; widened < maxRetries; widened++) {
+      value = onExhausted.widen();
+      attempts++;
+      if (claim(value)) return value;
+    }
+
+    throw exhausted(attempts);
   };
 }
 
+/**
+ * Reports the size of every unique value store, along with how often generated
+ * values collided with used ones. Collision rates close to 1 point at generators
+ * that cannot produce enough distinct values.
+ *
+ * @returns The statistics of every store
+ */
+export function getUniqueStats(): UniqueStats[] {
+  return Object.entries(uniqueValueStores).flatMap(([factoryId, stores]) =>
+    Object.entries(stores).map(([fieldName, store]) => ({
+      factoryId,
+      fieldName,
+      size: store.values.size,
+      attempts: store.attempts,
+      collisions: store.collisions,
+      collisionRate:
+        store.attempts === 0 ? 0 : store.collisions / store.attempts,
+    }))
+  );
+}
+
 // Clear unique values for a specific factory
 export function clearUniqueStore(factoryId: string = DEFAULT_FACTORY_ID): void {
   if (uniqueValueStores[factoryId]) {
@@ -60,3 +240,45 @@ export function clearAllUniqueStores(): void {
     uniqueValueStores[key] = {};
   });
 }
+
+/**
+ * A copy of every unique value store, taken by `snapshotUniqueStores()`
+ *
+ * @internal
+ */
+export type UniqueStoresSnapshot = Record<string, Record<string, UniqueStore>>;
+
+// Copies stores, so that neither the copy nor the original see changes made to the other
+function copyStores(stores: UniqueStoresSnapshot): UniqueStoresSnapshot {
+  return Object.fromEntries(
+    Object.entries(stores).map(([factoryId, fieldStores]) => [
+      factoryId,
+      Object.fromEntries(
+        Object.entries(fieldStores).map(([fieldName, store]) => [
+          fieldName,
+          { ...store, values: new Set(store.values) },
+        ])
+      ),
+    ])
+  );
+}
+
+/**
+ * Copies every unique value store
+ *
+ * @internal
+ */
+export function snapshotUniqueStores(): UniqueStoresSnapshot {
+  return copyStores(uniqueValueStores);
+}
+
+/**
+ * Restores every unique value store from a snapshot, which can be restored again later
+ *
+ * @internal
+ */
+export function restoreUniqueStores(snapshot: UniqueStoresSnapshot): void {
+  // Empty the stores created since the snapshot instead of deleting them
+  clearAllUniqueStores();
+  Object.assign(uniqueValueStores, copyStores(snapshot));
+}
@@ -0,0 +1,81 @@
+import type {
+  FactoryValidationContext,
+  JsonSchema,
+  ValidationIssue,
+  Validator,
+} from '@/types';
+
+/**
+ * Thrown when a factory builds an object its validators reject
+ */
+export class FactoryValidationError extends Error {
+  /** Name of the factory in the registry, if registered */
+  readonly factoryName: string | undefined;
+  /** Traits the object was built with */
+  readonly traits: string[];
+  /** Problems found in the object */
+  readonly issues: ValidationIssue[];
+
+  constructor({ factoryName, traits, issues }: FactoryValidationContext) {
+    const factory =
+      factoryName === undefined ? 'Factory' : `Factory '${factoryName}'`;
+    const withTraits =
+      traits.length > 0 ? ` with traits ${traits.join(', ')}` : '';
+    const details = issues
+      .map(({ path, message }) => `\n  - ${path || '(root)'}: ${message}`)
+      .join('');
+
+    super(`${factory} built an invalid object${withTraits}:${details}`);
+    this.name = 'FactoryValidationError';
+    this.factoryName = factoryName;
+    this.traits = traits;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Returns the attributes a validator requires, for schemas able to describe
+ * themselves as JSON Schema such as zod schemas
+ *
+ * @internal
+ */
+export function getRequiredKeys<T>(validator: Validator<T>): string[] {
+  if (
+    typeof validator === 'function' ||
+    !('toJSONSchema' in validator) ||
+    typeof validator.toJSONSchema !== 'function'
+  ) {
+    return [];
+  }
+
+  const schema = validator.toJSONSchema({ unrepresentable: 'any' }) as
+    | JsonSchema
+    | undefined;
+  return schema?.required ?? [];
+}
+
+/**
+ * Validates a built object, normalizing what the validator reports into issues
+ *
+ * @returns The problems found, none when the object is valid
+ * @internal
+ */
+export function validateInstance<T>(
+  validator: Validator<T>,
+  instance: T
+): ValidationIssue[] {
+  if (typeof validator !== 'function') {
+    const result = validator.safeParse(instance);
+    return result.success
+      ? []
+      : result.error.issues.map(({ path, message }) => ({
+          path: path.map(String).join('__'),
+          message,
+        }));
+  }
+
+  const result = validator(instance);
+  if (result === false) return [{ path: '', message: 'Invalid object' }];
+  if (typeof result === 'string') return [{ path: '', message: result }];
+  return Array.isArray(result) ? result : [];
+}
@@ -0,0 +1,29 @@
+/**
+ * Factory Kit setup for Vitest: isolates tests from each other when loaded
+ * through `setupFiles`
+ */
+import { registerTestIsolation, type TestIsolationOptions } from '@/testing';
+import { afterEach, beforeEach, expect } from 'vitest';
+
+/**
+ * Options of the hooks registered by this module
+ */
+const options: TestIsolationOptions = {};
+
+/**
+ * Configures the hooks registered by this module
+ *
+ * @param newOptions The options to change
+ */
+export function configureFactoryKit(newOptions: TestIsolationOptions): void {
+  Object.assign(options, newOptions);
+}
+
+registerTestIsolation(
+  {
+    beforeEach,
+    afterEach,
+    getTestName: () => expect.getState().currentTestName,
+  },
+  options
+);
@@ -3,6 +3,8 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: {
     index: 'src/index.ts',
+    jest: 'src/jest.ts',
+    vitest: 'src/vitest.ts',
   },
   outDir: 'dist',
   clean: true,